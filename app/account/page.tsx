@@ -0,0 +1,400 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  changePassword,
+  deleteAccount,
+  getCurrentUser,
+  listSessions,
+  revokeSession,
+  updateCurrentUser,
+} from "../../lib/sdk";
+import { errorMessage, fieldErrorMessage } from "../../lib/errors";
+import { logout } from "../../lib/auth";
+import { matchesField, required, strongPassword, useForm, type FormSchema } from "../../lib/forms";
+import FieldError from "../../components/FieldError";
+import PasswordStrengthMeter from "../../components/PasswordStrengthMeter";
+import type { User, UserSession } from "../../types";
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-gray-700 bg-gray-800 p-3 text-white focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500";
+const BUTTON_CLASS =
+  "rounded-lg bg-blue-600 px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50";
+
+type PasswordValues = {
+  current_password: string;
+  new_password: string;
+  confirmPassword: string;
+};
+
+const PASSWORD_SCHEMA: FormSchema<PasswordValues> = {
+  current_password: [required()],
+  new_password: [required(), strongPassword()],
+  confirmPassword: [required(), matchesField("new_password", "Passwords do not match!")],
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// "Chrome on macOS" from a user agent string
+const describeDevice = (userAgent?: string) => {
+  if (!userAgent) return "Unknown device";
+  const browser = [["Edg/", "Edge"], ["Firefox/", "Firefox"], ["Chrome/", "Chrome"], ["Safari/", "Safari"]]
+    .find(([token]) => userAgent.includes(token))?.[1] || "Browser";
+  const os = [["Windows", "Windows"], ["Android", "Android"], ["iPhone", "iOS"], ["iPad", "iOS"], ["Mac OS", "macOS"], ["Linux", "Linux"]]
+    .find(([token]) => userAgent.includes(token))?.[1];
+  return os ? `${browser} on ${os}` : browser;
+};
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : "—");
+
+function Section({ title, description, danger, children }: {
+  title: string;
+  description: string;
+  danger?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className={`rounded-2xl border p-6 ${danger ? "border-red-500/30 bg-red-500/5" : "border-gray-800 bg-gray-900/40"}`}>
+      <h2 className={`text-lg font-semibold ${danger ? "text-red-400" : "text-white"}`}>{title}</h2>
+      <p className="mt-1 mb-5 text-sm text-gray-400">{description}</p>
+      {children}
+    </section>
+  );
+}
+
+function Feedback({ error, success }: { error?: string; success?: string }) {
+  if (error) {
+    return <p className="mb-4 rounded-lg border border-red-500/20 bg-red-500/10 p-3 text-sm text-red-400">{error}</p>;
+  }
+  if (success) {
+    return <p className="mb-4 rounded-lg border border-green-500/20 bg-green-500/10 p-3 text-sm text-green-400">{success}</p>;
+  }
+  return null;
+}
+
+// ============================================================================
+// PROFILE
+// ============================================================================
+function ProfileSection({ user, onSaved }: { user: User; onSaved: (user: User) => void }) {
+  const [username, setUsername] = useState(user.username);
+  const [email, setEmail] = useState(user.email);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDirty = username !== user.username || email !== user.email;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSuccess("");
+    setIsSaving(true);
+
+    try {
+      // Only send what changed so an unchanged email isn't re-verified
+      const updated = await updateCurrentUser({
+        ...(username !== user.username ? { username } : {}),
+        ...(email !== user.email ? { email } : {}),
+      });
+      onSaved(updated);
+      setSuccess("Profile updated.");
+    } catch (err) {
+      setError(fieldErrorMessage(err, { username: "Username", email: "Email" }, "Could not update your profile."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Section title="Profile" description="The username and email address on your account.">
+      <Feedback error={error} success={success} />
+      <form onSubmit={handleSave} className="space-y-4">
+        <div>
+          <label className="mb-1 block text-sm text-gray-400">Username</label>
+          <input type="text" className={INPUT_CLASS} value={username} onChange={(e) => setUsername(e.target.value)} required />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm text-gray-400">Email Address</label>
+          <input type="email" className={INPUT_CLASS} value={email} onChange={(e) => setEmail(e.target.value)} required />
+        </div>
+        <button type="submit" disabled={!isDirty || isSaving} className={BUTTON_CLASS}>
+          {isSaving ? "Saving..." : "Save Changes"}
+        </button>
+      </form>
+    </Section>
+  );
+}
+
+// ============================================================================
+// PASSWORD
+// ============================================================================
+function PasswordSection() {
+  const [success, setSuccess] = useState("");
+
+  const form = useForm<PasswordValues>({
+    initialValues: { current_password: "", new_password: "", confirmPassword: "" },
+    schema: PASSWORD_SCHEMA,
+    fallbackError: "Could not change your password.",
+    onSubmit: async (values) => {
+      setSuccess("");
+      await changePassword({ current_password: values.current_password, new_password: values.new_password });
+      form.reset();
+      setSuccess("Password changed.");
+    },
+  });
+
+  return (
+    <Section title="Password" description="Enter your current password to choose a new one.">
+      <Feedback error={form.formError} success={success} />
+      <form onSubmit={form.handleSubmit} className="space-y-4" noValidate>
+        <div>
+          <label htmlFor="current_password" className="mb-1 block text-sm text-gray-400">Current Password</label>
+          <input
+            type="password"
+            className={INPUT_CLASS}
+            autoComplete="current-password"
+            required
+            {...form.field("current_password")}
+          />
+          <FieldError name="current_password" message={form.errors.current_password} />
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="new_password" className="mb-1 block text-sm text-gray-400">New Password</label>
+            <input
+              type="password"
+              className={INPUT_CLASS}
+              autoComplete="new-password"
+              required
+              {...form.field("new_password")}
+            />
+            <PasswordStrengthMeter password={form.values.new_password} />
+            <FieldError name="new_password" message={form.errors.new_password} />
+          </div>
+          <div>
+            <label htmlFor="confirmPassword" className="mb-1 block text-sm text-gray-400">Confirm New Password</label>
+            <input
+              type="password"
+              className={INPUT_CLASS}
+              autoComplete="new-password"
+              required
+              {...form.field("confirmPassword")}
+            />
+            <FieldError name="confirmPassword" message={form.errors.confirmPassword} />
+          </div>
+        </div>
+        <button type="submit" disabled={form.isSubmitting} className={BUTTON_CLASS}>
+          {form.isSubmitting ? "Changing..." : "Change Password"}
+        </button>
+      </form>
+    </Section>
+  );
+}
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+function SessionsSection() {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<number | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    listSessions({ signal: controller.signal })
+      .then(setSessions)
+      .catch(err => {
+        if (!controller.signal.aborted) setError(errorMessage(err, "Could not load your sessions."));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const handleRevoke = async (session: UserSession) => {
+    setError("");
+    setRevokingId(session.id);
+    try {
+      await revokeSession(session.id);
+      // Revoking this device's own session is the same as logging out
+      if (session.current) {
+        await logout();
+        return;
+      }
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (err) {
+      setError(errorMessage(err, "Could not revoke the session."));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <Section title="Active Sessions" description="Devices currently signed in to your account. Revoke any you don't recognise.">
+      <Feedback error={error} />
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading sessions...</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">No active sessions found.</p>
+      ) : (
+        <ul className="divide-y divide-gray-800">
+          {sessions.map(session => (
+            <li key={session.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-white">
+                  {describeDevice(session.user_agent)}
+                  {session.current && (
+                    <span className="ml-2 rounded-full border border-blue-500/20 bg-blue-500/10 px-2 py-0.5 text-[10px] text-blue-400">
+                      This device
+                    </span>
+                  )}
+                </p>
+                <p className="truncate text-xs text-gray-500">
+                  {session.ip_address || "Unknown IP"} · Signed in {formatDate(session.created_at)} · Last active {formatDate(session.last_active)}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevoke(session)}
+                disabled={revokingId !== null}
+                className="flex-shrink-0 rounded-lg border border-gray-700 px-3 py-1.5 text-xs text-gray-300 transition hover:border-red-500/50 hover:text-red-400 disabled:opacity-50"
+              >
+                {revokingId === session.id ? "Revoking..." : session.current ? "Log out" : "Revoke"}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Section>
+  );
+}
+
+// ============================================================================
+// DELETE ACCOUNT
+// ============================================================================
+function DeleteAccountSection({ user }: { user: User }) {
+  const [confirmation, setConfirmation] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const isConfirmed = confirmation === user.username;
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isConfirmed) return;
+    setError("");
+    setIsDeleting(true);
+
+    try {
+      await deleteAccount(password);
+      await logout();
+    } catch (err) {
+      setError(fieldErrorMessage(err, { current_password: "Password" }, "Could not delete your account."));
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Section
+      title="Delete Account"
+      description="Permanently deletes your account together with all of your documents, analyses and conversations. This cannot be undone."
+      danger
+    >
+      <Feedback error={error} />
+      <form onSubmit={handleDelete} className="space-y-4">
+        <div>
+          <label className="mb-1 block text-sm text-gray-400">
+            Type <span className="font-mono text-white">{user.username}</span> to confirm
+          </label>
+          <input
+            type="text"
+            className={INPUT_CLASS}
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            autoComplete="off"
+            required
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm text-gray-400">Current Password</label>
+          <input
+            type="password"
+            className={INPUT_CLASS}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!isConfirmed || isDeleting}
+          className="rounded-lg bg-red-600 px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isDeleting ? "Deleting..." : "Delete My Account"}
+        </button>
+      </form>
+    </Section>
+  );
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+export default function AccountPage() {
+  const [user, setUser] = useState<User | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const controller = new AbortController();
+    getCurrentUser({ signal: controller.signal })
+      .then(setUser)
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error("Account error:", err);
+        setError(errorMessage(err, "Could not load your account."));
+      });
+    return () => controller.abort();
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-white font-sans">
+      <header className="border-b border-gray-800/50 px-8 py-6">
+        <div className="mx-auto flex max-w-3xl items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Account <span className="text-blue-500">Settings</span></h1>
+            <p className="mt-1 text-xs text-gray-500">{user ? `Signed in as ${user.email}` : "SmartDoc Enterprise"}</p>
+          </div>
+          <Link
+            href="/dashboard"
+            className="rounded-lg border border-gray-800 px-4 py-2 text-sm transition hover:bg-gray-900"
+          >
+            ← Dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-6 px-8 py-8">
+        {error ? (
+          <Feedback error={error} />
+        ) : !user ? (
+          <div className="flex justify-center py-20">
+            <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <>
+            <ProfileSection user={user} onSaved={setUser} />
+            <PasswordSection />
+            <SessionsSection />
+            <DeleteAccountSection user={user} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { setSessionCookies } from "../../../../lib/authCookies";
+import { BACKEND_URL } from "../../../../lib/config";
+import { parseTokenPair } from "../../../../lib/schemas";
+
+// ============================================================================
+// COOKIE MODE LOGIN
+// Exchanges credentials for a JWT pair and keeps it in httpOnly cookies;
+// the tokens themselves are never returned to the browser.
+// ============================================================================
+export async function POST(request: NextRequest) {
+  const credentials = await request.json().catch(() => null);
+
+  try {
+    const upstream = await fetch(`${BACKEND_URL}/token/`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(credentials),
+    });
+    const data = await upstream.json().catch(() => null);
+
+    if (!upstream.ok) {
+      return NextResponse.json(data, { status: upstream.status });
+    }
+
+    const response = new NextResponse(null, { status: 204 });
+    setSessionCookies(response, parseTokenPair(data));
+    return response;
+  } catch (err) {
+    console.error("Login proxy error:", err);
+    return NextResponse.json({ detail: "Could not reach the authentication server." }, { status: 502 });
+  }
+}
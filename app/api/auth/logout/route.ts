@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { clearSessionCookies, REFRESH_COOKIE } from "../../../../lib/authCookies";
+import { BACKEND_URL } from "../../../../lib/config";
+
+// ============================================================================
+// COOKIE MODE LOGOUT
+// Revokes the refresh token on the backend, then drops the session cookies.
+// ============================================================================
+export async function POST(request: NextRequest) {
+  const refresh = request.cookies.get(REFRESH_COOKIE)?.value;
+
+  if (refresh) {
+    try {
+      await fetch(`${BACKEND_URL}/token/blacklist/`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refresh }),
+      });
+    } catch (err) {
+      // The cookies are cleared regardless; the token expires on its own
+      console.error("Token revoke error:", err);
+    }
+  }
+
+  const response = new NextResponse(null, { status: 204 });
+  clearSessionCookies(response);
+  return response;
+}
@@ -0,0 +1,87 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  ACCESS_COOKIE,
+  clearSessionCookies,
+  REFRESH_COOKIE,
+  refreshSession,
+  setSessionCookies,
+} from "../../../../lib/authCookies";
+import { BACKEND_URL } from "../../../../lib/config";
+import type { AccessToken } from "../../../../types";
+
+const PROXY_PREFIX = "/api/proxy";
+
+// Token endpoints go through /api/auth/* so JWTs never reach the browser
+const BLOCKED_PATHS = /^\/token\//;
+
+const STRIPPED_REQUEST_HEADERS = ["host", "cookie", "authorization", "connection", "content-length", "accept-encoding"];
+// fetch() already decoded the body, so length/encoding no longer apply
+const STRIPPED_RESPONSE_HEADERS = ["connection", "content-encoding", "content-length", "transfer-encoding", "set-cookie"];
+
+const forward = (request: NextRequest, path: string, body: ArrayBuffer | undefined, access?: string) => {
+  const headers = new Headers(request.headers);
+  STRIPPED_REQUEST_HEADERS.forEach(name => headers.delete(name));
+  if (access) headers.set("Authorization", `Bearer ${access}`);
+
+  return fetch(`${BACKEND_URL}${path}${request.nextUrl.search}`, {
+    method: request.method,
+    headers,
+    body,
+    redirect: "manual",
+    signal: request.signal,
+  });
+};
+
+// ============================================================================
+// COOKIE MODE API PROXY
+// Attaches the access token from the httpOnly cookie, refreshes it once on
+// a 401 and replays the request. Response bodies are streamed through as-is.
+// ============================================================================
+async function handler(request: NextRequest) {
+  const path = request.nextUrl.pathname.slice(PROXY_PREFIX.length) || "/";
+  if (BLOCKED_PATHS.test(path)) {
+    return NextResponse.json({ detail: "Not found." }, { status: 404 });
+  }
+
+  // Buffered so the request can be replayed after a refresh
+  const body = ["GET", "HEAD"].includes(request.method) ? undefined : await request.arrayBuffer();
+  const refresh = request.cookies.get(REFRESH_COOKIE)?.value;
+  let access = request.cookies.get(ACCESS_COOKIE)?.value;
+  let refreshed: AccessToken | null = null;
+
+  try {
+    // Access cookie already expired - refresh before going upstream
+    if (!access && refresh) {
+      refreshed = await refreshSession(refresh);
+      access = refreshed?.access;
+    }
+
+    let upstream = await forward(request, path, body, access);
+
+    if (upstream.status === 401 && refresh && !refreshed) {
+      refreshed = await refreshSession(refresh);
+      if (refreshed) upstream = await forward(request, path, body, refreshed.access);
+    }
+
+    const headers = new Headers(upstream.headers);
+    STRIPPED_RESPONSE_HEADERS.forEach(name => headers.delete(name));
+    const response = new NextResponse(upstream.body, { status: upstream.status, statusText: upstream.statusText, headers });
+
+    if (upstream.status === 401) {
+      clearSessionCookies(response);
+    } else if (refreshed) {
+      setSessionCookies(response, refreshed);
+    }
+    return response;
+  } catch (err) {
+    if (request.signal.aborted) return new NextResponse(null, { status: 499 });
+    console.error("API proxy error:", err);
+    return NextResponse.json({ detail: "Could not reach the server." }, { status: 502 });
+  }
+}
+
+export const GET = handler;
+export const POST = handler;
+export const PUT = handler;
+export const PATCH = handler;
+export const DELETE = handler;
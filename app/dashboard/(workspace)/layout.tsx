@@ -0,0 +1,5 @@
+import DashboardShell from "../../../features/dashboard/DashboardShell";
+
+export default function WorkspaceLayout({ children }: { children: React.ReactNode }) {
+  return <DashboardShell>{children}</DashboardShell>;
+}
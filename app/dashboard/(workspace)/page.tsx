@@ -0,0 +1,30 @@
+"use client";
+
+import { useEffect } from "react";
+import GlobalSearchPanel from "../../../features/chat/GlobalSearchPanel";
+import UploadPanel from "../../../features/uploader/UploadPanel";
+import LibraryPanel from "../../../features/library/LibraryPanel";
+import { useDashboard } from "../../../features/dashboard/useDashboard";
+
+export default function Dashboard() {
+  const { library } = useDashboard();
+  const { activeDoc, requestDocument } = library;
+
+  // `?doc=<id>` (e.g. from the document page) opens that document's chat
+  useEffect(() => {
+    const requested = Number(new URLSearchParams(window.location.search).get("doc"));
+    if (Number.isInteger(requested) && requested > 0) requestDocument(requested);
+  }, [requestDocument]);
+
+  return (
+    <>
+      {/* GLOBAL SEARCH SECTION */}
+      {!activeDoc && <GlobalSearchPanel />}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <UploadPanel />
+        <LibraryPanel />
+      </div>
+    </>
+  );
+}
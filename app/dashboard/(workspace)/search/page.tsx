@@ -0,0 +1,7 @@
+"use client";
+
+import GlobalSearchPanel from "../../../../features/chat/GlobalSearchPanel";
+
+export default function SearchPage() {
+  return <GlobalSearchPanel fullHeight />;
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { getDocument } from "../../../../lib/sdk";
+import { errorMessage, toApiError } from "../../../../lib/errors";
+import { useQuery } from "../../../../lib/queryCache";
+import { documentScope, listThreads, type Thread } from "../../../../lib/threads";
+import { formatCount, formatFileSize, formatTimestamp, getStatusStyle } from "../../../../lib/format";
+import { getFileType } from "../../../../lib/fileTypes";
+import DocumentIcon from "../../../../components/DocumentIcon";
+import Markdown from "../../../../components/Markdown";
+
+const WORDS_PER_MINUTE = 230;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function Panel({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="rounded-2xl border border-gray-800 bg-gray-900/40 p-6">
+      <h2 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-4">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <dt className="text-[10px] text-gray-500 uppercase tracking-widest">{label}</dt>
+      <dd className="text-sm font-semibold mt-1 truncate" title={value}>{value}</dd>
+    </div>
+  );
+}
+
+function ThreadItem({ thread }: { thread: Thread }) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <li className="rounded-xl border border-gray-800 bg-gray-800/30">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between gap-3 px-4 py-3 text-left"
+        aria-expanded={isOpen}
+      >
+        <span className="text-sm font-medium truncate">{thread.title}</span>
+        <span className="text-[10px] text-gray-500 whitespace-nowrap">
+          {thread.messages.length} messages · {formatTimestamp(thread.updated_at)}
+        </span>
+      </button>
+      {isOpen && (
+        <div className="border-t border-gray-800 px-4 py-4 space-y-4">
+          {thread.messages.map(msg => (
+            <div key={msg.id} className={msg.role === "user" ? "text-right" : ""}>
+              <div
+                className={`inline-block max-w-[90%] text-left text-sm rounded-2xl px-4 py-3 ${
+                  msg.role === "user" ? "bg-blue-600" : "bg-gray-800 border border-gray-700"
+                }`}
+              >
+                {msg.role === "ai" ? <Markdown>{msg.content}</Markdown> : <p className="whitespace-pre-wrap">{msg.content}</p>}
+              </div>
+              {msg.sources && msg.sources.length > 0 && (
+                <p className="text-[10px] text-gray-500 mt-1">{msg.sources.length} sources</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </li>
+  );
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+export default function DocumentDetailPage() {
+  const params = useParams<{ id: string }>();
+  const documentId = Number(params.id);
+
+  const isValidId = Number.isInteger(documentId);
+  // Cached per id: coming back to a document shows it at once while it reloads
+  const documentQuery = useQuery(
+    `document:${documentId}`,
+    signal => getDocument(documentId, { signal }).catch(err => {
+      if (!signal.aborted) console.error("Document error:", err);
+      throw err;
+    }),
+    { enabled: isValidId }
+  );
+  const [loadedThreads, setLoadedThreads] = useState<{ id: number; threads: Thread[] } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!Number.isInteger(documentId)) return;
+    const controller = new AbortController();
+
+    listThreads(documentScope(documentId), { signal: controller.signal })
+      .then(list => {
+        if (!controller.signal.aborted) setLoadedThreads({ id: documentId, threads: list });
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) console.error("Thread load error:", err);
+      });
+
+    return () => controller.abort();
+  }, [documentId]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Copy error:", err);
+    }
+  };
+
+  const doc = documentQuery.data;
+  const isLoading = isValidId && !doc && documentQuery.error === undefined;
+  const notFound = !isValidId || (!doc && toApiError(documentQuery.error).status === 404);
+  const threads = loadedThreads?.id === documentId ? loadedThreads.threads : [];
+  const result = doc?.analysis_result;
+  const status = doc ? getStatusStyle(doc.status) : null;
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-white font-sans">
+      {doc && <title>{`${doc.title} · SmartDoc Enterprise`}</title>}
+
+      <header className="border-b border-gray-800/50 px-8 py-6">
+        <div className="mx-auto flex max-w-4xl items-center justify-between gap-4">
+          <div className="flex items-center gap-4 min-w-0">
+            {doc && <DocumentIcon document={doc} />}
+            <div className="min-w-0">
+              <h1 className="text-2xl font-bold truncate">{doc?.title ?? "Document"}</h1>
+              {doc && status && (
+                <span className={`text-[10px] font-bold uppercase ${status.textColor} flex items-center gap-1 mt-1`}>
+                  <span className={`w-2 h-2 rounded-full ${status.dotColor}`}></span>
+                  {doc.status}
+                </span>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {doc && (
+              <button
+                onClick={copyLink}
+                className="rounded-lg border border-gray-800 px-4 py-2 text-sm transition hover:bg-gray-900"
+              >
+                {copied ? "Copied!" : "Copy Link"}
+              </button>
+            )}
+            {doc?.status === "completed" && (
+              <Link
+                href={`/dashboard?doc=${doc.id}`}
+                className="rounded-lg bg-green-600 px-4 py-2 text-sm font-semibold transition hover:bg-green-500"
+              >
+                Open Chat
+              </Link>
+            )}
+            <Link
+              href="/dashboard"
+              className="rounded-lg border border-gray-800 px-4 py-2 text-sm transition hover:bg-gray-900"
+            >
+              ← Dashboard
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-4xl space-y-6 px-8 py-8">
+        {isLoading ? (
+          <div className="flex justify-center py-20">
+            <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : notFound ? (
+          <div className="text-center py-20">
+            <p className="text-lg font-semibold">Document not found</p>
+            <p className="text-sm text-gray-500 mt-2">It may have been deleted, or the link is wrong.</p>
+          </div>
+        ) : !doc ? (
+          <p className="rounded-lg border border-red-500/20 bg-red-500/10 p-3 text-sm text-red-400">{errorMessage(documentQuery.error, "Could not load the document.")}</p>
+        ) : (
+          <>
+            {/* STATS */}
+            <Panel title="Details">
+              <dl className="grid grid-cols-2 sm:grid-cols-4 gap-6">
+                <Stat label="Pages" value={formatCount(result?.page_count)} />
+                <Stat label="Words" value={formatCount(result?.word_count)} />
+                <Stat
+                  label="Reading time"
+                  value={result?.word_count ? `${Math.max(1, Math.round(result.word_count / WORDS_PER_MINUTE))} min` : "—"}
+                />
+                <Stat label="Size" value={formatFileSize(doc.file_size)} />
+                <Stat label="Type" value={getFileType(doc.content_type)?.label ?? doc.content_type ?? "—"} />
+                <Stat label="Uploaded" value={formatTimestamp(doc.created_at) || "—"} />
+                <Stat label="Updated" value={formatTimestamp(doc.updated_at) || "—"} />
+                <Stat label="Conversations" value={String(threads.length)} />
+              </dl>
+              {doc.file && (
+                <a
+                  href={doc.file}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-block mt-6 text-xs text-blue-400 hover:underline"
+                >
+                  Download original file
+                </a>
+              )}
+            </Panel>
+
+            {doc.status === "failed" && result?.error && (
+              <p className="rounded-lg border border-red-500/20 bg-red-500/10 p-3 text-sm text-red-400 whitespace-pre-wrap">
+                {result.error}
+              </p>
+            )}
+            {(doc.status === "pending" || doc.status === "processing") && (
+              <p className="rounded-lg border border-blue-500/20 bg-blue-500/10 p-3 text-sm text-blue-300">
+                {doc.status === "pending"
+                  ? "This document hasn't been analyzed yet. Start the analysis from the dashboard."
+                  : "Analysis is in progress. The summary and insights appear here once it completes."}
+              </p>
+            )}
+
+            {/* SUMMARY */}
+            {result?.summary && (
+              <Panel title="Summary">
+                <p className="text-sm text-gray-300 leading-relaxed whitespace-pre-line">{result.summary}</p>
+              </Panel>
+            )}
+
+            {/* INSIGHTS */}
+            {result?.insights && (
+              <Panel title="Insights">
+                <Markdown className="text-sm text-gray-300">{result.insights}</Markdown>
+              </Panel>
+            )}
+
+            {/* CONVERSATIONS */}
+            <Panel title="Conversations">
+              {threads.length === 0 ? (
+                <p className="text-sm text-gray-500">No questions asked about this document yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {threads.map(thread => <ThreadItem key={thread.id} thread={thread} />)}
+                </ul>
+              )}
+            </Panel>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
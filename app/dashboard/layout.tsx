@@ -0,0 +1,7 @@
+import DashboardProvider from "../../features/dashboard/DashboardProvider";
+
+// Every dashboard route shares one store, so the library, open chat and
+// uploads carry over when moving between pages
+export default function DashboardLayout({ children }: { children: React.ReactNode }) {
+  return <DashboardProvider>{children}</DashboardProvider>;
+}
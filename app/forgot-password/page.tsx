@@ -0,0 +1,60 @@
+"use client";
+
+import { useState } from "react";
+import { requestPasswordReset } from "../../lib/sdk";
+import { fieldErrorMessage } from "../../lib/errors";
+import AuthCard, { AUTH_BUTTON_CLASS, AUTH_INPUT_CLASS } from "../../components/AuthCard";
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState("");
+  const [isSent, setIsSent] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setIsLoading(true);
+
+    try {
+      await requestPasswordReset(email);
+      setIsSent(true);
+    } catch (err) {
+      setError(fieldErrorMessage(err, { email: "Email" }, "Could not send the reset link. Please try again."));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <AuthCard
+      title="Reset Password"
+      error={error}
+      // Same message whether or not the account exists
+      success={isSent ? `If an account exists for ${email}, we've sent a link to reset your password.` : undefined}
+    >
+      {!isSent && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-400">
+            Enter the email address you signed up with and we&apos;ll send you a link to choose a new password.
+          </p>
+
+          <div>
+            <label className="mb-1 block text-sm text-gray-400">Email Address</label>
+            <input
+              type="email"
+              className={AUTH_INPUT_CLASS}
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+
+          <button type="submit" disabled={isLoading} className={AUTH_BUTTON_CLASS}>
+            {isLoading ? "Sending..." : "Send Reset Link"}
+          </button>
+        </form>
+      )}
+    </AuthCard>
+  );
+}
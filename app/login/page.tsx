@@ -1,45 +1,40 @@
 "use client";
 
 import { useState } from "react";
-import api from "../../lib/api";
+import { login } from "../../lib/auth";
+import { email, required, useForm, type FormSchema } from "../../lib/forms";
+import { safeNextPath } from "../../lib/routes";
+import FieldError from "../../components/FieldError";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 
+type LoginValues = {
+  email: string;
+  password: string;
+};
+
+const LOGIN_SCHEMA: FormSchema<LoginValues> = {
+  email: [required("Enter your email address."), email()],
+  password: [required("Enter your password.")],
+};
+
 export default function LoginPage() {
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
-  const [error, setError] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const router = useRouter();
 
-  const handleLogin = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError("");
-    setIsLoading(true);
+  const form = useForm<LoginValues>({
+    initialValues: { email: "", password: "" },
+    schema: LOGIN_SCHEMA,
+    fallbackError: "Invalid credentials. Please check your email and password.",
+    onSubmit: async (values) => {
+      // Stores the tokens (or session cookies, in cookie mode)
+      await login(values);
 
-    try {
-      const response = await api.post("/token/", {
-        email,
-        password,
-      });
-
-      // Save tokens
-      localStorage.setItem("access_token", response.data.access);
-      localStorage.setItem("refresh_token", response.data.refresh);
-
-      // Redirect to dashboard
-      router.push("/dashboard");
-    } catch (err: any) {
-      const errorMessage =
-        err.response?.data?.detail ||
-        err.response?.data?.message ||
-        "Invalid credentials. Please check your email and password.";
-      setError(errorMessage);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+      // Back to the page that required login, or the dashboard
+      router.push(safeNextPath(new URLSearchParams(window.location.search).get("next")));
+    },
+  });
+  const isLoading = form.isSubmitting;
 
   const togglePasswordVisibility = () => {
     setShowPassword(!showPassword);
@@ -90,7 +85,7 @@ export default function LoginPage() {
           </div>
 
           {/* Error Banner */}
-          {error && (
+          {form.formError && (
             <div className="mb-6 rounded-xl bg-red-500/10 border border-red-500/20 p-4 animate-in slide-in-from-top duration-300">
               <div className="flex items-start gap-3">
                 <div className="flex-shrink-0 w-5 h-5 text-red-500">
@@ -107,10 +102,10 @@ export default function LoginPage() {
                   <p className="text-sm font-medium text-red-400">
                     Authentication Failed
                   </p>
-                  <p className="text-xs text-gray-400 mt-0.5">{error}</p>
+                  <p className="text-xs text-gray-400 mt-0.5">{form.formError}</p>
                 </div>
                 <button
-                  onClick={() => setError("")}
+                  onClick={() => form.setFormError("")}
                   className="flex-shrink-0 text-gray-500 hover:text-white transition"
                   aria-label="Dismiss error"
                 >
@@ -133,7 +128,7 @@ export default function LoginPage() {
           )}
 
           {/* Login Form */}
-          <form onSubmit={handleLogin} className="space-y-5">
+          <form onSubmit={form.handleSubmit} className="space-y-5" noValidate>
             {/* Email Field */}
             <div>
               <label
@@ -159,17 +154,16 @@ export default function LoginPage() {
                   </svg>
                 </div>
                 <input
-                  id="email"
                   type="email"
                   autoComplete="email"
-                  className="w-full pl-10 pr-4 py-3 rounded-xl border border-gray-700 bg-gray-800/50 text-white placeholder:text-gray-600 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 transition-all"
+                  className="w-full pl-10 pr-4 py-3 rounded-xl border border-gray-700 bg-gray-800/50 text-white placeholder:text-gray-600 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 aria-[invalid=true]:border-red-500/70 transition-all"
                   placeholder="you@company.com"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
                   required
                   disabled={isLoading}
+                  {...form.field("email")}
                 />
               </div>
+              <FieldError name="email" message={form.errors.email} />
             </div>
 
             {/* Password Field */}
@@ -197,15 +191,13 @@ export default function LoginPage() {
                   </svg>
                 </div>
                 <input
-                  id="password"
                   type={showPassword ? "text" : "password"}
                   autoComplete="current-password"
-                  className="w-full pl-10 pr-12 py-3 rounded-xl border border-gray-700 bg-gray-800/50 text-white placeholder:text-gray-600 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 transition-all"
+                  className="w-full pl-10 pr-12 py-3 rounded-xl border border-gray-700 bg-gray-800/50 text-white placeholder:text-gray-600 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 aria-[invalid=true]:border-red-500/70 transition-all"
                   placeholder="Enter your password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
                   required
                   disabled={isLoading}
+                  {...form.field("password")}
                 />
                 <button
                   type="button"
@@ -251,6 +243,7 @@ export default function LoginPage() {
                   )}
                 </button>
               </div>
+              <FieldError name="password" message={form.errors.password} />
             </div>
 
             {/* Remember Me & Forgot Password */}
@@ -340,6 +333,12 @@ export default function LoginPage() {
                 </svg>
               </Link>
             </p>
+            <p className="mt-2 text-xs text-gray-500">
+              Didn&apos;t get your verification email?{" "}
+              <Link href="/verify-email" className="text-blue-500 hover:text-blue-400 transition-colors">
+                Resend it
+              </Link>
+            </p>
           </div>
         </div>
 
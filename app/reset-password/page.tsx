@@ -0,0 +1,111 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { confirmPasswordReset } from "../../lib/sdk";
+import { toApiError } from "../../lib/errors";
+import { matchesField, required, strongPassword, useForm, type FormSchema } from "../../lib/forms";
+import AuthCard, { AUTH_BUTTON_CLASS, AUTH_INPUT_CLASS } from "../../components/AuthCard";
+import FieldError from "../../components/FieldError";
+import PasswordStrengthMeter from "../../components/PasswordStrengthMeter";
+
+type ResetPasswordValues = {
+  new_password: string;
+  confirmPassword: string;
+};
+
+const RESET_PASSWORD_SCHEMA: FormSchema<ResetPasswordValues> = {
+  new_password: [required(), strongPassword()],
+  confirmPassword: [required(), matchesField("new_password", "Passwords do not match!")],
+};
+
+function ResetPasswordForm() {
+  const searchParams = useSearchParams();
+  const uid = searchParams.get("uid");
+  const token = searchParams.get("token");
+
+  const [isDone, setIsDone] = useState(false);
+  const [isLinkRejected, setIsLinkRejected] = useState(false);
+
+  const form = useForm<ResetPasswordValues>({
+    initialValues: { new_password: "", confirmPassword: "" },
+    schema: RESET_PASSWORD_SCHEMA,
+    fallbackError: "Could not reset your password. Please try again.",
+    onSubmit: async (values) => {
+      try {
+        await confirmPasswordReset({ uid: uid!, token: token!, new_password: values.new_password });
+        setIsDone(true);
+      } catch (err) {
+        // A rejected uid/token is the link's fault, not the password's
+        const { fieldErrors } = toApiError(err);
+        if (!fieldErrors.uid && !fieldErrors.token) throw err;
+        setIsLinkRejected(true);
+      }
+    },
+  });
+
+  if (!uid || !token || isLinkRejected) {
+    return (
+      <AuthCard title="Reset Password" error="This reset link is incomplete or has expired.">
+        <Link href="/forgot-password" className={`${AUTH_BUTTON_CLASS} block text-center`}>
+          Request a New Link
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  if (isDone) {
+    return (
+      <AuthCard title="Reset Password" success="Your password has been changed. You can now log in with it.">
+        <Link href="/login" className={`${AUTH_BUTTON_CLASS} block text-center`}>
+          Go to Login
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Choose a New Password" error={form.formError}>
+      <form onSubmit={form.handleSubmit} className="space-y-4" noValidate>
+        <div>
+          <label htmlFor="new_password" className="mb-1 block text-sm text-gray-400">New Password</label>
+          <input
+            type="password"
+            className={AUTH_INPUT_CLASS}
+            autoComplete="new-password"
+            required
+            {...form.field("new_password")}
+          />
+          <PasswordStrengthMeter password={form.values.new_password} />
+          <FieldError name="new_password" message={form.errors.new_password} />
+        </div>
+
+        <div>
+          <label htmlFor="confirmPassword" className="mb-1 block text-sm text-gray-400">Confirm Password</label>
+          <input
+            type="password"
+            className={AUTH_INPUT_CLASS}
+            autoComplete="new-password"
+            required
+            {...form.field("confirmPassword")}
+          />
+          <FieldError name="confirmPassword" message={form.errors.confirmPassword} />
+        </div>
+
+        <button type="submit" disabled={form.isSubmitting} className={AUTH_BUTTON_CLASS}>
+          {form.isSubmitting ? "Saving..." : "Set New Password"}
+        </button>
+      </form>
+    </AuthCard>
+  );
+}
+
+// useSearchParams() needs a Suspense boundary to prerender
+export default function ResetPasswordPage() {
+  return (
+    <Suspense>
+      <ResetPasswordForm />
+    </Suspense>
+  );
+}
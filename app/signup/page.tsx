@@ -1,123 +1,124 @@
 "use client";
 
-import { useState } from "react";
-import api from "../../lib/api";
+import { createUser } from "../../lib/sdk";
+import {
+  email,
+  matchesField,
+  maxLength,
+  required,
+  strongPassword,
+  useForm,
+  username,
+  USERNAME_MAX_LENGTH,
+  type FormSchema,
+} from "../../lib/forms";
 import { useRouter } from "next/navigation";
 import Link from "next/link"; 
+import AuthCard, { AUTH_BUTTON_CLASS, AUTH_INPUT_CLASS } from "../../components/AuthCard";
+import FieldError from "../../components/FieldError";
+import PasswordStrengthMeter from "../../components/PasswordStrengthMeter";
 
-export default function SignupPage() {
-  const [username, setUsername] = useState("");
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
-  const [confirmPassword, setConfirmPassword] = useState("");
-  const [error, setError] = useState("");
-  const router = useRouter();
+type SignupValues = {
+  username: string;
+  email: string;
+  password: string;
+  confirmPassword: string;
+};
 
-  const handleSignup = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError("");
+const SIGNUP_SCHEMA: FormSchema<SignupValues> = {
+  username: [required(), username(), maxLength(USERNAME_MAX_LENGTH)],
+  email: [required(), email()],
+  password: [required(), strongPassword()],
+  confirmPassword: [required(), matchesField("password", "Passwords do not match!")],
+};
 
-    if (password !== confirmPassword) {
-      setError("Passwords do not match!");
-      return;
-    }
+export default function SignupPage() {
+  const router = useRouter();
 
-    try {
+  const form = useForm<SignupValues>({
+    initialValues: { username: "", email: "", password: "", confirmPassword: "" },
+    schema: SIGNUP_SCHEMA,
+    fallbackError: "Error creating account. Please try again.",
+    onSubmit: async (values) => {
       // Sending all 3 fields required by the Serializer
-      await api.post("/users/", {
-        username,
-        email,
-        password,
+      await createUser({
+        username: values.username,
+        email: values.email,
+        password: values.password,
       });
 
-      alert("Account created successfully! 🎉 Please log in.");
-      router.push("/login"); 
-
-    } catch (err: any) {
-      console.error("Signup failed:", err.response?.data);
-      // Display the specific error from Django if available
-      const backendError = err.response?.data;
-      if (backendError?.username) {
-        setError(`Username: ${backendError.username[0]}`);
-      } else if (backendError?.email) {
-        setError(`Email: ${backendError.email[0]}`);
-      } else {
-        setError("Error creating account. Please try again.");
-      }
-    }
-  };
+      // The account stays inactive until the emailed link is opened
+      router.push(`/verify-email?email=${encodeURIComponent(values.email)}`);
+    },
+  });
 
   return (
-    <div className="flex min-h-screen items-center justify-center bg-gray-950 px-4 text-white">
-      <div className="w-full max-w-md rounded-xl border border-gray-800 bg-gray-900 p-8 shadow-2xl">
-        <h2 className="mb-6 text-center text-3xl font-bold text-blue-500">Join SmartDoc</h2>
-        
-        {error && (
-          <div className="mb-4 rounded-lg bg-red-500/10 p-3 text-center text-sm text-red-500 border border-red-500/20">
-            {error}
-          </div>
-        )}
-
-        <form onSubmit={handleSignup} className="space-y-4">
-          <div>
-            <label className="mb-1 block text-sm text-gray-400">Username</label>
-            <input
-              type="text"
-              className="w-full rounded-lg border border-gray-700 bg-gray-800 p-3 text-white focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              required
-            />
-          </div>
-
-          <div>
-            <label className="mb-1 block text-sm text-gray-400">Email Address</label>
-            <input
-              type="email"
-              className="w-full rounded-lg border border-gray-700 bg-gray-800 p-3 text-white focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              required
-            />
-          </div>
-
-          <div>
-            <label className="mb-1 block text-sm text-gray-400">Password</label>
-            <input
-              type="password"
-              className="w-full rounded-lg border border-gray-700 bg-gray-800 p-3 text-white focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              required
-            />
-          </div>
-
-          <div>
-            <label className="mb-1 block text-sm text-gray-400">Confirm Password</label>
-            <input
-              type="password"
-              className="w-full rounded-lg border border-gray-700 bg-gray-800 p-3 text-white focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
-              value={confirmPassword}
-              onChange={(e) => setConfirmPassword(e.target.value)}
-              required
-            />
-          </div>
-
-          <button
-            type="submit"
-            className="mt-6 w-full rounded-lg bg-blue-600 p-3 font-semibold text-white transition hover:bg-blue-700"
-          >
-            Create Account
-          </button>
-        </form>
-
-        <p className="mt-6 text-center text-sm text-gray-400">
+    <AuthCard
+      title="Join SmartDoc"
+      error={form.formError}
+      footer={
+        <>
           Already have an account?{" "}
           <Link href="/login" className="text-blue-500 hover:underline">
             Log in
           </Link>
-        </p>
-      </div>
-    </div>
+        </>
+      }
+    >
+      <form onSubmit={form.handleSubmit} className="space-y-4" noValidate>
+        <div>
+          <label htmlFor="username" className="mb-1 block text-sm text-gray-400">Username</label>
+          <input
+            type="text"
+            className={AUTH_INPUT_CLASS}
+            autoComplete="username"
+            required
+            {...form.field("username")}
+          />
+          <FieldError name="username" message={form.errors.username} />
+        </div>
+
+        <div>
+          <label htmlFor="email" className="mb-1 block text-sm text-gray-400">Email Address</label>
+          <input
+            type="email"
+            className={AUTH_INPUT_CLASS}
+            autoComplete="email"
+            required
+            {...form.field("email")}
+          />
+          <FieldError name="email" message={form.errors.email} />
+        </div>
+
+        <div>
+          <label htmlFor="password" className="mb-1 block text-sm text-gray-400">Password</label>
+          <input
+            type="password"
+            className={AUTH_INPUT_CLASS}
+            autoComplete="new-password"
+            required
+            {...form.field("password")}
+          />
+          <PasswordStrengthMeter password={form.values.password} />
+          <FieldError name="password" message={form.errors.password} />
+        </div>
+
+        <div>
+          <label htmlFor="confirmPassword" className="mb-1 block text-sm text-gray-400">Confirm Password</label>
+          <input
+            type="password"
+            className={AUTH_INPUT_CLASS}
+            autoComplete="new-password"
+            required
+            {...form.field("confirmPassword")}
+          />
+          <FieldError name="confirmPassword" message={form.errors.confirmPassword} />
+        </div>
+
+        <button type="submit" disabled={form.isSubmitting} className={AUTH_BUTTON_CLASS}>
+          {form.isSubmitting ? "Creating Account..." : "Create Account"}
+        </button>
+      </form>
+    </AuthCard>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { activateUser, resendActivation } from "../../lib/sdk";
+import { fieldErrorMessage } from "../../lib/errors";
+import AuthCard, { AUTH_BUTTON_CLASS, AUTH_INPUT_CLASS } from "../../components/AuthCard";
+
+type VerifyStatus = "pending" | "verifying" | "verified" | "failed";
+
+const VERIFY_FIELD_LABELS = {
+  uid: "Verification link",
+  token: "Verification link",
+};
+
+function VerifyEmail() {
+  const searchParams = useSearchParams();
+  const uid = searchParams.get("uid");
+  const token = searchParams.get("token");
+
+  // Without a uid/token we were sent here after signup to wait for the email
+  const [status, setStatus] = useState<VerifyStatus>(uid && token ? "verifying" : "pending");
+  const [email, setEmail] = useState(searchParams.get("email") || "");
+  const [error, setError] = useState("");
+  const [resendMessage, setResendMessage] = useState("");
+  const [isResending, setIsResending] = useState(false);
+  // Activation tokens are single-use; don't submit twice under StrictMode
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (!uid || !token || startedRef.current) return;
+    startedRef.current = true;
+
+    activateUser({ uid, token })
+      .then(() => setStatus("verified"))
+      .catch(err => {
+        console.error("Verify error:", err);
+        setError(fieldErrorMessage(err, VERIFY_FIELD_LABELS, "This verification link is invalid or has expired."));
+        setStatus("failed");
+      });
+  }, [uid, token]);
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setResendMessage("");
+    setIsResending(true);
+
+    try {
+      await resendActivation(email);
+      setResendMessage(`If ${email} is waiting for verification, a new link is on its way.`);
+    } catch (err) {
+      setError(fieldErrorMessage(err, { email: "Email" }, "Could not resend the verification email. Please try again."));
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  if (status === "verifying") {
+    return (
+      <AuthCard title="Verify Email">
+        <div className="flex flex-col items-center gap-4 py-4">
+          <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+          <p className="text-sm text-gray-400">Verifying your email address...</p>
+        </div>
+      </AuthCard>
+    );
+  }
+
+  if (status === "verified") {
+    return (
+      <AuthCard title="Verify Email" success="Your email address is verified. You can now log in.">
+        <Link href="/login" className={`${AUTH_BUTTON_CLASS} block text-center`}>
+          Go to Login
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title={status === "pending" ? "Check Your Inbox" : "Verify Email"} error={error} success={resendMessage}>
+      {status === "pending" && (
+        <p className="mb-4 text-sm text-gray-400">
+          We sent a verification link to {email ? <span className="text-white">{email}</span> : "your email address"}.
+          Open it to activate your account, then log in.
+        </p>
+      )}
+
+      <form onSubmit={handleResend} className="space-y-4">
+        <div>
+          <label className="mb-1 block text-sm text-gray-400">Didn&apos;t get the email? Resend it to:</label>
+          <input
+            type="email"
+            className={AUTH_INPUT_CLASS}
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+        </div>
+
+        <button type="submit" disabled={isResending} className={AUTH_BUTTON_CLASS}>
+          {isResending ? "Sending..." : "Resend Verification Email"}
+        </button>
+      </form>
+    </AuthCard>
+  );
+}
+
+// useSearchParams() needs a Suspense boundary to prerender
+export default function VerifyEmailPage() {
+  return (
+    <Suspense>
+      <VerifyEmail />
+    </Suspense>
+  );
+}
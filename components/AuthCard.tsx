@@ -0,0 +1,51 @@
+import Link from "next/link";
+
+interface AuthCardProps {
+  title: string;
+  error?: string;
+  success?: string;
+  children?: React.ReactNode;
+  footer?: React.ReactNode;
+}
+
+export const AUTH_INPUT_CLASS =
+  "w-full rounded-lg border border-gray-700 bg-gray-800 p-3 text-white focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 aria-[invalid=true]:border-red-500/70";
+
+export const AUTH_BUTTON_CLASS =
+  "mt-6 w-full rounded-lg bg-blue-600 p-3 font-semibold text-white transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50";
+
+// Card layout shared by the signup, password reset and verification pages
+export default function AuthCard({ title, error, success, children, footer }: AuthCardProps) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-950 px-4 text-white">
+      <div className="w-full max-w-md rounded-xl border border-gray-800 bg-gray-900 p-8 shadow-2xl">
+        <h2 className="mb-6 text-center text-3xl font-bold text-blue-500">{title}</h2>
+
+        {error && (
+          <div className="mb-4 rounded-lg bg-red-500/10 p-3 text-center text-sm text-red-500 border border-red-500/20">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="mb-4 rounded-lg bg-green-500/10 p-3 text-center text-sm text-green-400 border border-green-500/20">
+            {success}
+          </div>
+        )}
+
+        {children}
+
+        <p className="mt-6 text-center text-sm text-gray-400">
+          {footer ?? (
+            <>
+              Back to{" "}
+              <Link href="/login" className="text-blue-500 hover:underline">
+                Log in
+              </Link>
+            </>
+          )}
+        </p>
+      </div>
+    </div>
+  );
+}
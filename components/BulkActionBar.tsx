@@ -0,0 +1,124 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { buildFolderTree, flattenFolderTree, normalizeTag } from "../lib/library";
+import type { Folder } from "../types";
+
+interface BulkActionBarProps {
+  count: number;
+  folders: Folder[];
+  // Tags on the selected documents, offered for removal
+  selectedTags: string[];
+  // Every tag in the library, suggested when adding
+  allTags: string[];
+  isWorking: boolean;
+  onMove: (folder: number | null) => void;
+  onAddTag: (tag: string) => void;
+  onRemoveTag: (tag: string) => void;
+  onDelete: () => void;
+  // Limit global search to the selection
+  onAsk: () => void;
+  onClear: () => void;
+}
+
+const SELECT_CLASS = "bg-gray-800 text-[11px] px-2 py-1 rounded-lg border border-gray-700 outline-none focus:border-blue-500 disabled:opacity-50";
+
+export default function BulkActionBar({
+  count,
+  folders,
+  selectedTags,
+  allTags,
+  isWorking,
+  onMove,
+  onAddTag,
+  onRemoveTag,
+  onDelete,
+  onAsk,
+  onClear
+}: BulkActionBarProps) {
+  const [tagDraft, setTagDraft] = useState("");
+  const folderOptions = useMemo(() => flattenFolderTree(buildFolderTree(folders)), [folders]);
+
+  const submitTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = normalizeTag(tagDraft);
+    if (!tag) return;
+    onAddTag(tag);
+    setTagDraft("");
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-3 p-2 rounded-xl bg-blue-500/10 border border-blue-500/20">
+      <span className="text-xs font-semibold text-blue-300 px-1">{count} selected</span>
+
+      <select
+        value=""
+        onChange={(e) => e.target.value && onMove(e.target.value === "none" ? null : Number(e.target.value))}
+        disabled={isWorking}
+        className={SELECT_CLASS}
+        aria-label="Move selected documents to folder"
+      >
+        <option value="">Move to…</option>
+        <option value="none">No folder</option>
+        {folderOptions.map(folder => (
+          <option key={folder.id} value={folder.id}>
+            {"\u00a0\u00a0".repeat(folder.depth)}{folder.name}
+          </option>
+        ))}
+      </select>
+
+      <form onSubmit={submitTag} className="flex items-center gap-1">
+        <input
+          value={tagDraft}
+          onChange={(e) => setTagDraft(e.target.value)}
+          list="bulk-tag-suggestions"
+          placeholder="Add tag"
+          disabled={isWorking}
+          className={`${SELECT_CLASS} w-24`}
+        />
+        <datalist id="bulk-tag-suggestions">
+          {allTags.map(tag => <option key={tag} value={tag} />)}
+        </datalist>
+        <button type="submit" disabled={isWorking || !tagDraft.trim()} className="text-[11px] font-bold text-blue-400 hover:text-blue-300 disabled:opacity-40">
+          Tag
+        </button>
+      </form>
+
+      {selectedTags.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onRemoveTag(e.target.value)}
+          disabled={isWorking}
+          className={SELECT_CLASS}
+          aria-label="Remove tag from selected documents"
+        >
+          <option value="">Remove tag…</option>
+          {selectedTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+        </select>
+      )}
+
+      <button
+        onClick={onAsk}
+        disabled={isWorking}
+        className="text-[11px] font-bold text-blue-400 hover:text-blue-300 px-1 disabled:opacity-40"
+        title="Limit global search to the selected documents"
+      >
+        Ask about these
+      </button>
+
+      <button
+        onClick={onDelete}
+        disabled={isWorking}
+        className="text-[11px] font-bold text-red-400 hover:text-red-300 px-1 disabled:opacity-40"
+      >
+        Delete
+      </button>
+
+      <div className="flex-1"></div>
+      {isWorking && <span className="w-3 h-3 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></span>}
+      <button onClick={onClear} disabled={isWorking} className="text-[11px] text-gray-400 hover:text-white px-1 disabled:opacity-40">
+        Clear
+      </button>
+    </div>
+  );
+}
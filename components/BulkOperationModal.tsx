@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import Modal from "./Modal";
+
+// How many failed items are named in the report before "and N more"
+const MAX_LISTED_FAILURES = 5;
+
+interface BulkOperationModalProps {
+  title: string;
+  // What will be affected, with counts; shown until the operation starts
+  children: React.ReactNode;
+  confirmLabel: string;
+  // "Deleting", shown with the progress
+  progressLabel: string;
+  // "could not be deleted", for the failure report
+  failedLabel: string;
+  total: number;
+  // Resolves with the names of the items that failed
+  run: (onProgress: (done: number) => void) => Promise<string[]>;
+  // Also called on its own once everything succeeded
+  onClose: () => void;
+}
+
+export default function BulkOperationModal({
+  title,
+  children,
+  confirmLabel,
+  progressLabel,
+  failedLabel,
+  total,
+  run,
+  onClose
+}: BulkOperationModalProps) {
+  const [phase, setPhase] = useState<"confirm" | "running" | "done">("confirm");
+  const [done, setDone] = useState(0);
+  const [failed, setFailed] = useState<string[]>([]);
+
+  const handleStart = async () => {
+    setPhase("running");
+    const failedNames = await run(setDone);
+    if (failedNames.length === 0) {
+      onClose();
+      return;
+    }
+    setFailed(failedNames);
+    setPhase("done");
+  };
+
+  const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+
+  return (
+    <Modal
+      title={title}
+      onClose={onClose}
+      isDismissable={phase !== "running"}
+      footer={
+        phase === "confirm" ? (
+          <>
+            <button
+              onClick={onClose}
+              autoFocus
+              className="px-4 py-2 rounded-lg text-sm text-gray-300 hover:bg-gray-800 transition"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleStart}
+              className="px-4 py-2 rounded-lg text-sm font-bold bg-red-600 hover:bg-red-500 transition"
+            >
+              {confirmLabel}
+            </button>
+          </>
+        ) : phase === "done" ? (
+          <button onClick={onClose} autoFocus className="px-4 py-2 rounded-lg text-sm font-bold bg-blue-600 hover:bg-blue-500 transition">
+            Close
+          </button>
+        ) : undefined
+      }
+    >
+      {phase === "confirm" && children}
+
+      {phase === "running" && (
+        <div>
+          <p className="text-xs text-gray-400 mb-2">
+            {progressLabel} {done} of {total}…
+          </p>
+          <div className="h-1.5 rounded-full bg-gray-800 overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }}></div>
+          </div>
+        </div>
+      )}
+
+      {phase === "done" && (
+        <div>
+          <p>
+            {total - failed.length} of {total} done. {failed.length} {failedLabel}:
+          </p>
+          <ul className="mt-2 space-y-1 text-xs text-red-300">
+            {failed.slice(0, MAX_LISTED_FAILURES).map((name, i) => (
+              <li key={i} className="truncate">• {name}</li>
+            ))}
+            {failed.length > MAX_LISTED_FAILURES && (
+              <li className="text-gray-500">and {failed.length - MAX_LISTED_FAILURES} more</li>
+            )}
+          </ul>
+          <p className="mt-3 text-xs text-gray-500">You can try them again later.</p>
+        </div>
+      )}
+    </Modal>
+  );
+}
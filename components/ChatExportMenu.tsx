@@ -0,0 +1,152 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import Markdown from "./Markdown";
+import {
+  ROLE_LABELS,
+  describeExportScope,
+  downloadFile,
+  exportFileName,
+  formatCitation,
+  parseChatExport,
+  toJson,
+  toMarkdown,
+  type ChatExport,
+  type ChatExportType
+} from "../lib/chatExport";
+import { errorMessage } from "../lib/errors";
+import { formatDateTime } from "../lib/format";
+import { describeScope, isScopeEmpty } from "../lib/searchScope";
+
+interface ChatExportMenuProps {
+  // Called on demand so the export reflects the messages at click time
+  getExport: () => ChatExport;
+  onImport: (data: ChatExport) => Promise<void>;
+  onError: (message: string) => void;
+  disabled?: boolean;
+  // Nothing to export yet; importing still works
+  isEmpty?: boolean;
+}
+
+// Light, print-friendly copy of the conversation; only this is visible when printing
+function PrintableConversation({ data }: { data: ChatExport }) {
+  return (
+    <div className="print-root bg-white text-black p-8 text-sm">
+      <h1 className="text-2xl font-bold">{data.title}</h1>
+      <p className="text-xs text-gray-600 mt-1">
+        {describeExportScope(data)} · Exported {formatDateTime(data.exported_at)} · {data.messages.length} messages
+      </p>
+      <hr className="my-4 border-gray-300" />
+      {data.messages.map(message => (
+        <section key={message.id} className="mb-6 break-inside-avoid-page">
+          <h2 className="text-xs font-bold uppercase tracking-wide text-gray-600">
+            {ROLE_LABELS[message.role]} · {formatDateTime(message.timestamp)}
+          </h2>
+          {message.role === "ai" ? (
+            <Markdown className="mt-1">{message.content}</Markdown>
+          ) : (
+            <p className="mt-1 whitespace-pre-wrap">{message.content}</p>
+          )}
+          {message.role === "user" && message.scope && !isScopeEmpty(message.scope) && (
+            <p className="mt-1 text-xs italic text-gray-600">Scope: {describeScope(message.scope)}</p>
+          )}
+          {message.sources && message.sources.length > 0 && (
+            <ol className="mt-2 list-decimal pl-5 text-xs text-gray-700">
+              {message.sources.map((source, i) => <li key={i}>{formatCitation(source)}</li>)}
+            </ol>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
+
+export default function ChatExportMenu({ getExport, onImport, onError, disabled, isEmpty }: ChatExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [printData, setPrintData] = useState<ChatExport | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  // Print once the printable copy is in the DOM; the browser's dialog offers "Save as PDF"
+  useEffect(() => {
+    if (!printData) return;
+    const handleAfterPrint = () => setPrintData(null);
+    window.addEventListener("afterprint", handleAfterPrint);
+    window.print();
+    return () => window.removeEventListener("afterprint", handleAfterPrint);
+  }, [printData]);
+
+  const handleExport = (type: ChatExportType) => {
+    setIsOpen(false);
+    const data = getExport();
+    if (type === "markdown") {
+      downloadFile(exportFileName(data, "md"), toMarkdown(data), "text/markdown;charset=utf-8");
+    } else if (type === "json") {
+      downloadFile(exportFileName(data, "json"), toJson(data), "application/json");
+    } else {
+      setPrintData(data);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      await onImport(parseChatExport(await file.text()));
+    } catch (err) {
+      console.error("Import error:", err);
+      onError(errorMessage(err, "Could not import the conversation."));
+    }
+  };
+
+  const itemClass = "w-full text-left px-3 py-2 text-xs hover:bg-gray-700 transition disabled:opacity-40 disabled:hover:bg-transparent";
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="text-gray-500 hover:text-white transition p-1 disabled:opacity-30"
+        title="Export or import conversation"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div role="menu" className="absolute right-0 top-full mt-1 z-30 w-44 bg-gray-800 border border-gray-700 rounded-lg shadow-xl overflow-hidden">
+          <button role="menuitem" onClick={() => handleExport("markdown")} disabled={isEmpty} className={itemClass}>Export as Markdown</button>
+          <button role="menuitem" onClick={() => handleExport("pdf")} disabled={isEmpty} className={itemClass}>Export as PDF</button>
+          <button role="menuitem" onClick={() => handleExport("json")} disabled={isEmpty} className={itemClass}>Export as JSON</button>
+          <div className="border-t border-gray-700"></div>
+          <button
+            role="menuitem"
+            onClick={() => { setIsOpen(false); fileInputRef.current?.click(); }}
+            className={itemClass}
+          >
+            Import JSON…
+          </button>
+        </div>
+      )}
+
+      <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+
+      {printData && createPortal(<PrintableConversation data={printData} />, document.body)}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  buildFolderTree,
+  collectTags,
+  collectionKey,
+  filterByCollection,
+  type Collection,
+  type FolderNode
+} from "../lib/library";
+import type { Document, Folder } from "../types";
+
+interface CollectionNavigatorProps {
+  folders: Folder[];
+  documents: Document[];
+  // Trashed documents aren't in `documents`
+  trashCount: number;
+  selected: Collection;
+  onSelect: (collection: Collection) => void;
+  onCreateFolder: (name: string, parent: number | null) => Promise<void>;
+  onRenameFolder: (id: number, name: string) => Promise<void>;
+  onDeleteFolder: (folder: Folder) => Promise<void>;
+}
+
+// Inline name input for a new (sub)folder or a rename
+type Editing = { mode: "create"; parent: number | null } | { mode: "rename"; id: number };
+
+export default function CollectionNavigator({
+  folders,
+  documents,
+  trashCount,
+  selected,
+  onSelect,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder
+}: CollectionNavigatorProps) {
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const tree = useMemo(() => buildFolderTree(folders), [folders]);
+  const tags = useMemo(() => collectTags(documents), [documents]);
+  const selectedKey = collectionKey(selected);
+
+  const countOf = (collection: Collection) => filterByCollection(documents, collection, folders).length;
+
+  const startEditing = (next: Editing, name = "") => {
+    setEditing(next);
+    setDraftName(name);
+  };
+
+  const submitEditing = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = draftName.trim();
+    if (!editing || !name) return;
+    try {
+      if (editing.mode === "create") {
+        await onCreateFolder(name, editing.parent);
+        if (editing.parent !== null) {
+          const parent = editing.parent;
+          setCollapsed(prev => new Set([...prev].filter(id => id !== parent)));
+        }
+      } else {
+        await onRenameFolder(editing.id, name);
+      }
+      setEditing(null);
+    } catch (err) {
+      console.error("Folder error:", err);
+    }
+  };
+
+  const toggleCollapsed = (id: number) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const itemClass = (collection: Collection) =>
+    `flex-1 min-w-0 flex items-center justify-between gap-2 text-left text-xs px-2 py-1.5 rounded-lg transition ${
+      collectionKey(collection) === selectedKey ? "bg-blue-500/15 text-blue-300" : "text-gray-400 hover:bg-gray-800/60 hover:text-gray-200"
+    }`;
+
+  const nameInput = (
+    <form onSubmit={submitEditing} className="px-1 py-1">
+      <input
+        autoFocus
+        value={draftName}
+        onChange={(e) => setDraftName(e.target.value)}
+        onKeyDown={(e) => e.key === "Escape" && setEditing(null)}
+        onBlur={() => !draftName.trim() && setEditing(null)}
+        placeholder="Folder name"
+        className="w-full bg-gray-800 text-xs px-2 py-1 rounded border border-gray-700 outline-none focus:border-blue-500"
+      />
+    </form>
+  );
+
+  const renderFolder = (node: FolderNode): React.ReactNode => {
+    const collection: Collection = { type: "folder", id: node.id };
+    const isCollapsed = collapsed.has(node.id);
+
+    return (
+      <li key={node.id}>
+        {editing?.mode === "rename" && editing.id === node.id ? (
+          nameInput
+        ) : (
+          <div className="group flex items-center" style={{ paddingLeft: `${node.depth * 12}px` }}>
+            <button
+              onClick={() => toggleCollapsed(node.id)}
+              className={`w-4 text-[10px] text-gray-600 hover:text-gray-300 ${node.children.length ? "" : "invisible"}`}
+              aria-label={isCollapsed ? `Expand ${node.name}` : `Collapse ${node.name}`}
+            >
+              {isCollapsed ? "▸" : "▾"}
+            </button>
+            <button onClick={() => onSelect(collection)} className={itemClass(collection)}>
+              <span className="truncate">📁 {node.name}</span>
+              <span className="text-[10px] text-gray-600">{countOf(collection)}</span>
+            </button>
+            <div className="hidden group-hover:flex items-center text-[10px] text-gray-500 ml-1">
+              <button onClick={() => startEditing({ mode: "create", parent: node.id })} className="px-0.5 hover:text-white" title="New subfolder">+</button>
+              <button onClick={() => startEditing({ mode: "rename", id: node.id }, node.name)} className="px-0.5 hover:text-white" title="Rename folder">✎</button>
+              <button onClick={() => onDeleteFolder(node)} className="px-0.5 hover:text-red-400" title="Delete folder">×</button>
+            </div>
+          </div>
+        )}
+        {!isCollapsed && (node.children.length > 0 || (editing?.mode === "create" && editing.parent === node.id)) && (
+          <ul>
+            {node.children.map(renderFolder)}
+            {editing?.mode === "create" && editing.parent === node.id && (
+              <li style={{ paddingLeft: `${(node.depth + 1) * 12 + 16}px` }}>{nameInput}</li>
+            )}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <nav className="text-xs space-y-4" aria-label="Library collections">
+      <ul className="space-y-0.5">
+        {([{ type: "all" }, { type: "unfiled" }] as Collection[]).map(collection => (
+          <li key={collectionKey(collection)} className="flex">
+            <button onClick={() => onSelect(collection)} className={itemClass(collection)}>
+              <span>{collection.type === "all" ? "All documents" : "Unfiled"}</span>
+              <span className="text-[10px] text-gray-600">{countOf(collection)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div>
+        <div className="flex items-center justify-between px-2 mb-1">
+          <p className="text-[10px] font-bold text-gray-500 uppercase">Folders</p>
+          <button
+            onClick={() => startEditing({ mode: "create", parent: null })}
+            className="text-gray-500 hover:text-white transition"
+            title="New folder"
+          >
+            +
+          </button>
+        </div>
+        <ul className="space-y-0.5">
+          {tree.map(renderFolder)}
+          {editing?.mode === "create" && editing.parent === null && <li>{nameInput}</li>}
+        </ul>
+        {tree.length === 0 && editing?.mode !== "create" && (
+          <p className="px-2 text-[10px] text-gray-600">No folders yet</p>
+        )}
+      </div>
+
+      <div>
+        <p className="text-[10px] font-bold text-gray-500 uppercase px-2 mb-1">Tags</p>
+        {tags.length === 0 ? (
+          <p className="px-2 text-[10px] text-gray-600">Select documents to tag them</p>
+        ) : (
+          <ul className="space-y-0.5">
+            {tags.map(({ tag, count }) => {
+              const collection: Collection = { type: "tag", tag };
+              return (
+                <li key={tag} className="flex">
+                  <button onClick={() => onSelect(collection)} className={itemClass(collection)}>
+                    <span className="truncate">#{tag}</span>
+                    <span className="text-[10px] text-gray-600">{count}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <ul className="pt-3 border-t border-gray-800/50">
+        <li className="flex">
+          <button onClick={() => onSelect({ type: "trash" })} className={itemClass({ type: "trash" })}>
+            <span>🗑 Trash</span>
+            <span className="text-[10px] text-gray-600">{trashCount}</span>
+          </button>
+        </li>
+      </ul>
+    </nav>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import Modal from "./Modal";
+import type { ConfirmOptions } from "../lib/useConfirm";
+
+interface ConfirmDialogProps {
+  request: ConfirmOptions | null;
+  onSettle: (confirmed: boolean) => void;
+}
+
+export default function ConfirmDialog({ request, onSettle }: ConfirmDialogProps) {
+  if (!request) return null;
+
+  return (
+    <Modal
+      title={request.title}
+      onClose={() => onSettle(false)}
+      footer={
+        <>
+          <button
+            onClick={() => onSettle(false)}
+            autoFocus={request.tone === "danger"}
+            className="px-4 py-2 rounded-lg text-sm text-gray-300 hover:bg-gray-800 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSettle(true)}
+            autoFocus={request.tone !== "danger"}
+            className={`px-4 py-2 rounded-lg text-sm font-bold transition ${
+              request.tone === "danger" ? "bg-red-600 hover:bg-red-500" : "bg-blue-600 hover:bg-blue-500"
+            }`}
+          >
+            {request.confirmLabel ?? "Confirm"}
+          </button>
+        </>
+      }
+    >
+      <p className="whitespace-pre-line">{request.message}</p>
+    </Modal>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { useState } from "react";
+
+interface CopyButtonProps {
+  text: string;
+  label?: string;
+  className?: string;
+}
+
+export default function CopyButton({ text, label = "Copy", className = "" }: CopyButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Copy error:", err);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      className={`text-[10px] font-semibold transition ${copied ? "text-green-400" : "text-gray-500 hover:text-gray-200"} ${className}`}
+      aria-live="polite"
+    >
+      {copied ? "Copied!" : label}
+    </button>
+  );
+}
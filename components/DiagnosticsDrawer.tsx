@@ -0,0 +1,240 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getDocumentDiagnostics } from "../lib/sdk";
+import { errorMessage, toApiError } from "../lib/errors";
+import { formatDateTime } from "../lib/format";
+import type { AnalysisOptions, Document, DocumentDiagnostics, StatusChange } from "../types";
+
+interface DiagnosticsDrawerProps {
+  document: Document;
+  onReanalyze: (options: AnalysisOptions) => Promise<void>;
+  onCancel: () => Promise<void>;
+  onClose: () => void;
+}
+
+const DEFAULT_CHUNK_SIZE = 1000;
+const DEFAULT_CHUNK_OVERLAP = 200;
+
+const STATUS_COLORS: Record<StatusChange["status"], string> = {
+  pending: "bg-yellow-500",
+  processing: "bg-blue-500",
+  completed: "bg-green-500",
+  failed: "bg-red-500",
+  cancelled: "bg-gray-500"
+};
+
+const formatParameter = (value: string | number | boolean | null) =>
+  value === null ? "—" : typeof value === "boolean" ? (value ? "On" : "Off") : String(value);
+
+// Backends without a diagnostics endpoint still get a minimal timeline
+const fallbackDiagnostics = (doc: Document): DocumentDiagnostics => ({
+  error: doc.analysis_result?.error,
+  history: [
+    ...(doc.created_at ? [{ status: "pending" as const, timestamp: doc.created_at, detail: "Uploaded" }] : []),
+    ...(doc.updated_at && doc.status !== "pending" ? [{ status: doc.status, timestamp: doc.updated_at }] : [])
+  ],
+  parameters: {}
+});
+
+export default function DiagnosticsDrawer({ document: doc, onReanalyze, onCancel, onClose }: DiagnosticsDrawerProps) {
+  // Keyed by document and status so a status change refetches the timeline
+  const loadKey = `${doc.id}:${doc.status}`;
+  // `diagnostics` is null when the request failed and the fallback timeline is shown
+  const [loaded, setLoaded] = useState<{ key: string; diagnostics: DocumentDiagnostics | null; error?: string } | null>(null);
+  const [chunkSize, setChunkSize] = useState("");
+  const [chunkOverlap, setChunkOverlap] = useState("");
+  const [ocr, setOcr] = useState<boolean | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    getDocumentDiagnostics(doc.id, { signal: controller.signal })
+      .then(diagnostics => setLoaded({ key: loadKey, diagnostics }))
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error("Diagnostics error:", err);
+        setLoaded({
+          key: loadKey,
+          diagnostics: null,
+          // A missing endpoint isn't worth an error banner
+          error: toApiError(err).status === 404 ? undefined : errorMessage(err, "Could not load diagnostics")
+        });
+      });
+    return () => controller.abort();
+  }, [doc.id, loadKey]);
+
+  const isLoading = loaded?.key !== loadKey;
+  const diagnostics = loaded && (loaded.diagnostics ?? fallbackDiagnostics(doc));
+  const parameters = diagnostics?.parameters ?? {};
+  const errorText = diagnostics?.error || doc.analysis_result?.error;
+
+  // Form fields start from the last run's parameters until edited
+  const paramNumber = (key: string, fallback: number) =>
+    typeof parameters[key] === "number" ? String(parameters[key]) : String(fallback);
+  const chunkSizeValue = chunkSize || paramNumber("chunk_size", DEFAULT_CHUNK_SIZE);
+  const chunkOverlapValue = chunkOverlap || paramNumber("chunk_overlap", DEFAULT_CHUNK_OVERLAP);
+  const ocrValue = ocr ?? parameters.ocr === true;
+
+  const handleReanalyze = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await onReanalyze({
+        chunk_size: Number(chunkSizeValue),
+        chunk_overlap: Number(chunkOverlapValue),
+        ocr: ocrValue
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setIsSubmitting(true);
+    try {
+      await onCancel();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} aria-hidden="true"></div>
+
+      <aside
+        className="relative w-full max-w-md h-full bg-gray-950 border-l border-gray-800 flex flex-col animate-in slide-in-from-right"
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Diagnostics for ${doc.title}`}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800">
+          <div className="min-w-0">
+            <h2 className="text-sm font-bold truncate">{doc.title}</h2>
+            <p className="text-[10px] text-gray-500 uppercase tracking-widest mt-0.5">Diagnostics · {doc.status}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition ml-2" title="Close diagnostics">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {loaded?.error && (
+            <p className="text-xs text-yellow-400 bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3">{loaded.error}</p>
+          )}
+
+          {/* ERROR */}
+          {errorText && (
+            <section>
+              <h3 className="text-[10px] font-bold text-red-400 uppercase tracking-widest mb-2">Error</h3>
+              <pre className="text-xs text-red-300 bg-red-500/10 border border-red-500/20 rounded-lg p-3 whitespace-pre-wrap break-words font-mono">
+                {errorText}
+              </pre>
+            </section>
+          )}
+
+          {/* TIMELINE */}
+          <section>
+            <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3">Status Timeline</h3>
+            {isLoading ? (
+              <p className="text-xs text-gray-500">Loading...</p>
+            ) : diagnostics?.history.length ? (
+              <ol className="relative border-l border-gray-800 ml-1.5 space-y-4">
+                {diagnostics.history.map((change, i) => (
+                  <li key={`${change.timestamp}-${i}`} className="relative ml-4">
+                    <span className={`absolute -left-[22.5px] top-0.5 w-3 h-3 rounded-full ${STATUS_COLORS[change.status]}`}></span>
+                    <p className="text-xs font-semibold capitalize">{change.status}</p>
+                    <p className="text-[10px] text-gray-500">{formatDateTime(change.timestamp)}</p>
+                    {change.detail && <p className="text-xs text-gray-400 mt-1">{change.detail}</p>}
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-xs text-gray-500">No status history recorded.</p>
+            )}
+          </section>
+
+          {/* PARAMETERS */}
+          {Object.keys(parameters).length > 0 && (
+            <section>
+              <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2">Processing Parameters</h3>
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-1.5 text-xs">
+                {Object.entries(parameters).map(([key, value]) => (
+                  <div key={key} className="contents">
+                    <dt className="text-gray-500">{key.replace(/_/g, " ")}</dt>
+                    <dd className="text-gray-300 font-mono truncate">{formatParameter(value)}</dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          )}
+
+          {/* ACTIONS */}
+          {doc.status === "processing" ? (
+            <section className="border-t border-gray-800 pt-6">
+              <p className="text-xs text-gray-400 mb-3">Stuck? Cancelling stops the current run so the document can be analyzed again.</p>
+              <button
+                onClick={handleCancel}
+                disabled={isSubmitting}
+                className="w-full border border-red-500/40 text-red-400 hover:bg-red-500/10 text-xs font-bold py-2.5 rounded-lg transition disabled:opacity-50"
+              >
+                {isSubmitting ? "Cancelling..." : "Cancel Analysis"}
+              </button>
+            </section>
+          ) : (
+            <form onSubmit={handleReanalyze} className="border-t border-gray-800 pt-6 space-y-4">
+              <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+                {doc.status === "pending" ? "Analyze" : "Re-analyze"}
+              </h3>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="text-xs text-gray-400">
+                  Chunk size
+                  <input
+                    type="number"
+                    min={100}
+                    step={100}
+                    value={chunkSizeValue}
+                    onChange={(e) => setChunkSize(e.target.value)}
+                    className="mt-1 w-full bg-gray-900 border border-gray-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+                    required
+                  />
+                </label>
+                <label className="text-xs text-gray-400">
+                  Chunk overlap
+                  <input
+                    type="number"
+                    min={0}
+                    step={50}
+                    value={chunkOverlapValue}
+                    onChange={(e) => setChunkOverlap(e.target.value)}
+                    className="mt-1 w-full bg-gray-900 border border-gray-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+                    required
+                  />
+                </label>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={ocrValue}
+                  onChange={(e) => setOcr(e.target.checked)}
+                  className="w-4 h-4 rounded border-gray-600 bg-gray-800 text-blue-600"
+                />
+                Run OCR (for scanned pages and images)
+              </label>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full bg-blue-600 hover:bg-blue-500 text-xs font-bold py-2.5 rounded-lg transition disabled:opacity-50"
+              >
+                {isSubmitting ? "Starting..." : doc.status === "pending" ? "Start Analysis" : "Re-analyze Document"}
+              </button>
+            </form>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
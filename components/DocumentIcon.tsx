@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import { getFileType, type FileKind } from "../lib/fileTypes";
+import { hasPreview, loadDocumentPreview, type DocumentPreview } from "../lib/documentPreview";
+import { useQuery } from "../lib/queryCache";
+import type { Document } from "../types";
+
+const ICON_STYLES: Record<FileKind, { color: string; badge: string }> = {
+  pdf: { color: "text-red-400 bg-red-500/10 border-red-500/20", badge: "PDF" },
+  docx: { color: "text-blue-400 bg-blue-500/10 border-blue-500/20", badge: "DOC" },
+  text: { color: "text-gray-300 bg-gray-500/10 border-gray-500/20", badge: "TXT" },
+  markdown: { color: "text-purple-400 bg-purple-500/10 border-purple-500/20", badge: "MD" },
+  html: { color: "text-orange-400 bg-orange-500/10 border-orange-500/20", badge: "HTML" },
+  image: { color: "text-green-400 bg-green-500/10 border-green-500/20", badge: "IMG" }
+};
+
+interface DocumentIconProps {
+  contentType?: string;
+  // Shows a preview of the document's file (once scrolled into view) instead of the bare icon
+  document?: Document;
+}
+
+export default function DocumentIcon({ contentType, document: doc }: DocumentIconProps) {
+  const type = doc?.content_type ?? contentType;
+  const fileType = getFileType(type);
+  const style = fileType ? ICON_STYLES[fileType.kind] : ICON_STYLES.text;
+
+  const iconRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const canPreview = !!doc && hasPreview(doc);
+
+  useEffect(() => {
+    const element = iconRef.current;
+    if (!canPreview || !element) return;
+    const observer = new IntersectionObserver(
+      ([entry]) => entry.isIntersecting && setIsVisible(true),
+      { rootMargin: "200px" }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [canPreview]);
+
+  // The file doesn't change, so a preview is built once per session
+  const { data: preview } = useQuery<DocumentPreview | null>(
+    `preview:${doc?.id}`,
+    signal => (doc ? loadDocumentPreview(doc, { signal }) : Promise.resolve(null)),
+    { enabled: canPreview && isVisible, staleTime: Infinity }
+  );
+
+  if (canPreview && preview?.kind === "image") {
+    return (
+      <Image
+        src={preview.url}
+        alt=""
+        width={40}
+        height={40}
+        unoptimized
+        className="w-10 h-10 flex-shrink-0 rounded-lg object-cover border border-gray-700"
+      />
+    );
+  }
+
+  if (canPreview && preview?.kind === "text") {
+    return (
+      <div
+        className={`relative w-10 h-10 flex-shrink-0 rounded-lg border overflow-hidden ${style.color}`}
+        title={preview.excerpt}
+      >
+        <p className="p-1 text-[4px] leading-[5px] text-gray-400 break-words" aria-hidden="true">{preview.excerpt}</p>
+        <span className="absolute inset-x-0 bottom-0 bg-gray-900/80 py-0.5 text-center text-[8px] font-bold leading-none">{style.badge}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={iconRef}
+      className={`w-10 h-10 flex-shrink-0 rounded-lg border flex flex-col items-center justify-center ${style.color}`}
+      title={fileType?.label ?? type}
+    >
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        {fileType?.kind === "image" ? (
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        ) : fileType?.kind === "html" ? (
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+        ) : (
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+        )}
+      </svg>
+      <span className="text-[8px] font-bold leading-none mt-0.5">{fileType ? style.badge : "FILE"}</span>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+interface FieldErrorProps {
+  // Matches the input's id; the input points here via aria-describedby
+  name: string;
+  message?: string;
+}
+
+export default function FieldError({ name, message }: FieldErrorProps) {
+  if (!message) return null;
+
+  return (
+    <p id={`${name}-error`} role="alert" className="mt-1.5 flex items-center gap-1.5 text-xs text-red-400">
+      <svg className="w-3.5 h-3.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+      </svg>
+      {message}
+    </p>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github-dark.css";
+import CopyButton from "./CopyButton";
+import { SANITIZE_SCHEMA, rehypeCitations, textContent } from "../lib/markdown";
+import type { Source } from "../types";
+
+interface MarkdownProps {
+  children: string;
+  className?: string;
+  // `[n]` markers link to `${citationPrefix}-source-n` and call onCitationClick
+  sources?: Source[];
+  citationPrefix?: string;
+  onCitationClick?: (index: number) => void;
+}
+
+const describeSource = (source?: Source) =>
+  source ? [source.document_title, source.page !== undefined && `p.${source.page}`].filter(Boolean).join(" ") : undefined;
+
+// Tailwind has no prose styles here, so each element gets its own classes
+const COMPONENTS: Components = {
+  h1: ({ children }) => <h1 className="text-lg font-bold mt-4 mb-2">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-base font-bold mt-4 mb-2">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-sm font-bold mt-3 mb-1.5">{children}</h3>,
+  p: ({ children }) => <p className="mb-3 last:mb-0 leading-relaxed">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-5 mb-3 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 mb-3 space-y-1">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-2 border-gray-700 pl-3 text-gray-400 italic mb-3">{children}</blockquote>
+  ),
+  code: ({ className, children }) => (
+    <code className={className ?? "bg-gray-900/80 rounded px-1 py-0.5 text-[0.9em] font-mono"}>{children}</code>
+  ),
+  pre: ({ node, children }) => {
+    const code = node?.children.find(child => child.type === "element" && child.tagName === "code");
+    const className = code?.type === "element" ? code.properties.className : undefined;
+    const language = Array.isArray(className)
+      ? className.map(String).find(name => name.startsWith("language-"))?.slice("language-".length)
+      : undefined;
+
+    return (
+      <div className="mb-3 rounded-lg border border-gray-700 overflow-hidden">
+        <div className="flex items-center justify-between bg-gray-900 px-3 py-1 border-b border-gray-700">
+          <span className="text-[10px] text-gray-500 font-mono">{language ?? "code"}</span>
+          <CopyButton text={textContent(code)} />
+        </div>
+        <pre className="overflow-x-auto bg-[#0d1117] text-xs [&_code]:block [&_code]:p-3 [&_code]:bg-transparent [&_code]:rounded-none">{children}</pre>
+      </div>
+    );
+  },
+  table: ({ children }) => (
+    <div className="mb-3 overflow-x-auto rounded-lg border border-gray-700">
+      <table className="w-full text-xs border-collapse">{children}</table>
+    </div>
+  ),
+  thead: ({ children }) => <thead className="bg-gray-900">{children}</thead>,
+  th: ({ children, style }) => <th style={style} className="px-3 py-2 text-left font-semibold border-b border-gray-700">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="px-3 py-2 border-t border-gray-700/50 align-top">{children}</td>,
+  hr: () => <hr className="border-gray-700 my-4" />
+};
+
+export default function Markdown({ children, className, sources = [], citationPrefix = "", onCitationClick }: MarkdownProps) {
+  const components: Components = {
+    ...COMPONENTS,
+    a: ({ node, href, children }) => {
+      const citation = Number(node?.properties.dataCitation);
+      if (citation) {
+        return (
+          <a
+            href={href}
+            onClick={(e) => {
+              e.preventDefault();
+              document.getElementById(href?.slice(1) ?? "")?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+              onCitationClick?.(citation - 1);
+            }}
+            className="text-[0.85em] font-semibold text-blue-400 hover:text-blue-300 align-super"
+            title={describeSource(sources[citation - 1])}
+          >
+            {children}
+          </a>
+        );
+      }
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
+          {children}
+        </a>
+      );
+    }
+  };
+
+  // Sanitize first: KaTeX, highlighting and citation links are generated from trusted code
+  return (
+    <div className={className}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[
+          [rehypeSanitize, SANITIZE_SCHEMA],
+          rehypeKatex,
+          [rehypeHighlight, { detect: false }],
+          [rehypeCitations, { count: sources.length, idPrefix: citationPrefix }]
+        ]}
+        components={components}
+        skipHtml
+      >
+        {children}
+      </ReactMarkdown>
+    </div>
+  );
+}
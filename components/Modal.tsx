@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect } from "react";
+
+interface ModalProps {
+  title: string;
+  onClose: () => void;
+  children: React.ReactNode;
+  // Buttons, right-aligned under the content
+  footer?: React.ReactNode;
+  // Blocks Escape and backdrop clicks, e.g. while an action is running
+  isDismissable?: boolean;
+}
+
+export default function Modal({ title, onClose, children, footer, isDismissable = true }: ModalProps) {
+  useEffect(() => {
+    if (!isDismissable) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKey);
+    return () => document.removeEventListener("keydown", handleKey);
+  }, [isDismissable, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60" onClick={isDismissable ? onClose : undefined} aria-hidden="true"></div>
+
+      <div
+        className="relative w-full max-w-md bg-gray-900 border border-gray-800 rounded-2xl shadow-2xl animate-in fade-in zoom-in-95"
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+      >
+        <div className="px-6 pt-5 pb-4">
+          <h2 className="text-base font-bold">{title}</h2>
+          <div className="mt-2 text-sm text-gray-400">{children}</div>
+        </div>
+        {footer && (
+          <div className="px-6 py-4 border-t border-gray-800 flex justify-end gap-2">{footer}</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { passwordStrength } from "../lib/forms";
+
+const SCORE_COLORS = ["bg-red-500", "bg-orange-500", "bg-yellow-500", "bg-green-500", "bg-emerald-400"];
+
+export default function PasswordStrengthMeter({ password }: { password: string }) {
+  if (!password) return null;
+  const { score, label } = passwordStrength(password);
+
+  return (
+    <div className="mt-2" aria-live="polite">
+      <div className="flex gap-1" aria-hidden="true">
+        {[0, 1, 2, 3].map(segment => (
+          <div
+            key={segment}
+            className={`h-1 flex-1 rounded-full transition-colors ${segment < Math.max(score, 1) ? SCORE_COLORS[score] : "bg-gray-700"}`}
+          />
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-gray-400">Password strength: {label}</p>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { PDFDocumentProxy, PageViewport } from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import { getDocumentFile } from "../lib/sdk";
+import type { Source } from "../types";
+
+interface PdfViewerProps {
+  documentId: number;
+  title: string;
+  citations: Source[];
+  activeIndex: number;
+  onActiveIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+interface HighlightRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const RENDER_SCALE = 1.3;
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+// Locate a cited chunk in the page's text items and return the indexes of the
+// items that overlap it. Chunks are often split across pages or re-flowed by the
+// extractor, so shorter prefixes are tried when the full passage isn't found.
+const findCitedItems = (items: TextItem[], citedText: string): Set<number> => {
+  const needle = normalizeText(citedText);
+  const matched = new Set<number>();
+  if (!needle) return matched;
+
+  let joined = "";
+  const offsets: { start: number; end: number }[] = [];
+  items.forEach(item => {
+    const text = normalizeText(item.str);
+    const start = joined.length;
+    joined += text + " ";
+    offsets.push({ start, end: start + text.length });
+  });
+
+  for (const length of [needle.length, 120, 60, 30]) {
+    const probe = needle.slice(0, length);
+    const start = joined.indexOf(probe);
+    if (start === -1) continue;
+    const end = Math.min(start + needle.length, joined.length);
+    offsets.forEach((range, index) => {
+      if (range.end > range.start && range.start < end && range.end > start) matched.add(index);
+    });
+    break;
+  }
+  return matched;
+};
+
+// ============================================================================
+// SINGLE PAGE (rendered lazily once scrolled near the viewport)
+// ============================================================================
+
+interface PdfPageProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  highlightText?: string;
+  registerRef: (pageNumber: number, element: HTMLDivElement | null) => void;
+}
+
+function PdfPage({ pdf, pageNumber, highlightText, registerRef }: PdfPageProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [viewport, setViewport] = useState<PageViewport | null>(null);
+  const [highlights, setHighlights] = useState<HighlightRect[]>([]);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new IntersectionObserver(
+      ([entry]) => entry.isIntersecting && setIsVisible(true),
+      { rootMargin: "400px" }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!isVisible) return;
+    let cancelled = false;
+    let renderTask: { cancel: () => void } | null = null;
+
+    pdf.getPage(pageNumber).then(page => {
+      if (cancelled || !canvasRef.current) return;
+      const pageViewport = page.getViewport({ scale: RENDER_SCALE });
+      const canvas = canvasRef.current;
+      canvas.width = pageViewport.width;
+      canvas.height = pageViewport.height;
+      setViewport(pageViewport);
+      renderTask = page.render({ canvas, viewport: pageViewport });
+    }).catch(err => console.error("PDF page error:", err));
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, isVisible]);
+
+  useEffect(() => {
+    if (!viewport || !highlightText) return;
+    let cancelled = false;
+
+    Promise.all([pdf.getPage(pageNumber), import("pdfjs-dist")]).then(async ([page, pdfjs]) => {
+      const content = await page.getTextContent();
+      if (cancelled) return;
+      const items = content.items.filter((item): item is TextItem => "str" in item);
+      const matched = findCitedItems(items, highlightText);
+
+      setHighlights([...matched].map(index => {
+        const item = items[index];
+        const tx = pdfjs.Util.transform(viewport.transform, item.transform);
+        const fontHeight = Math.hypot(tx[2], tx[3]);
+        return {
+          left: tx[4],
+          top: tx[5] - fontHeight,
+          width: item.width * viewport.scale,
+          height: fontHeight
+        };
+      }));
+    }).catch(err => console.error("PDF text error:", err));
+
+    return () => { cancelled = true; };
+  }, [pdf, pageNumber, viewport, highlightText]);
+
+  return (
+    <div
+      ref={element => {
+        containerRef.current = element;
+        registerRef(pageNumber, element);
+      }}
+      className="relative mx-auto bg-white shadow-xl"
+      style={viewport ? { width: viewport.width, height: viewport.height } : { width: 612 * RENDER_SCALE, height: 792 * RENDER_SCALE }}
+    >
+      <canvas ref={canvasRef} className="block" />
+      {highlightText && highlights.map((rect, index) => (
+        <div
+          key={index}
+          className="absolute bg-yellow-300/40 mix-blend-multiply rounded-sm pointer-events-none"
+          style={rect}
+        />
+      ))}
+      <span className="absolute bottom-2 right-3 text-[10px] text-gray-400">{pageNumber}</span>
+    </div>
+  );
+}
+
+// ============================================================================
+// VIEWER PANE
+// ============================================================================
+
+export default function PdfViewer({
+  documentId,
+  title,
+  citations,
+  activeIndex,
+  onActiveIndexChange,
+  onClose
+}: PdfViewerProps) {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const pageRefs = useRef(new Map<number, HTMLDivElement>());
+
+  const activeCitation = citations[activeIndex];
+  const activePage = activeCitation?.page;
+
+  // ✅ LOAD THE PDF THROUGH THE AUTHENTICATED API CLIENT
+  // Always the same-origin file endpoint: the document's media URL may live on
+  // another host, which must neither receive the token nor be fetched without it.
+  useEffect(() => {
+    const controller = new AbortController();
+    let loaded: PDFDocumentProxy | null = null;
+
+    (async () => {
+      try {
+        const pdfjs = await import("pdfjs-dist");
+        pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
+
+        const data = await getDocumentFile(documentId, { signal: controller.signal });
+        loaded = await pdfjs.getDocument({ data }).promise;
+        if (controller.signal.aborted) {
+          loaded.destroy();
+          return;
+        }
+        setPdf(loaded);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("PDF load error:", err);
+        setLoadError("Could not load the document preview.");
+      }
+    })();
+
+    return () => {
+      controller.abort();
+      loaded?.destroy();
+    };
+  }, [documentId]);
+
+  // Jump to the cited page whenever the active citation changes
+  useEffect(() => {
+    if (!pdf || activePage === undefined) return;
+    const target = pageRefs.current.get(Math.min(Math.max(activePage, 1), pdf.numPages));
+    target?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }, [pdf, activePage, activeIndex]);
+
+  const registerRef = (pageNumber: number, element: HTMLDivElement | null) => {
+    if (element) pageRefs.current.set(pageNumber, element);
+    else pageRefs.current.delete(pageNumber);
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gray-950 border-r border-gray-800">
+      <div className="px-6 py-4 border-b border-gray-800 flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <h3 className="font-bold truncate">{title}</h3>
+          <p className="text-[10px] text-gray-500">
+            {pdf ? `${pdf.numPages} pages` : "Loading..."}
+            {activeCitation && activePage !== undefined && ` · Citation ${activeIndex + 1} of ${citations.length} on page ${activePage}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {citations.length > 1 && (
+            <>
+              <button
+                onClick={() => onActiveIndexChange((activeIndex - 1 + citations.length) % citations.length)}
+                className="px-2 py-1 text-xs border border-gray-800 rounded-lg hover:bg-gray-900 transition"
+                title="Previous citation"
+              >
+                ‹ Prev
+              </button>
+              <button
+                onClick={() => onActiveIndexChange((activeIndex + 1) % citations.length)}
+                className="px-2 py-1 text-xs border border-gray-800 rounded-lg hover:bg-gray-900 transition"
+                title="Next citation"
+              >
+                Next ›
+              </button>
+            </>
+          )}
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition ml-2" title="Close viewer">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {activeCitation?.text && (
+        <div className="px-6 py-3 border-b border-gray-800 bg-yellow-500/5">
+          <p className="text-[10px] text-yellow-400 font-bold uppercase mb-1">
+            Cited passage{activeCitation.score !== undefined && ` · ${(activeCitation.score * 100).toFixed(0)}% match`}
+          </p>
+          <p className="text-xs text-gray-400 line-clamp-3">{activeCitation.text}</p>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto p-6 space-y-6 custom-scrollbar">
+        {loadError ? (
+          <div className="flex items-center justify-center h-full">
+            <p className="text-sm text-red-400">{loadError}</p>
+          </div>
+        ) : !pdf ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          Array.from({ length: pdf.numPages }, (_, i) => i + 1).map(pageNumber => (
+            <PdfPage
+              key={pageNumber}
+              pdf={pdf}
+              pageNumber={pageNumber}
+              highlightText={activePage === pageNumber ? activeCitation?.text : undefined}
+              registerRef={registerRef}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { DOCUMENT_STATUSES } from "../lib/schemas";
+import { STATUS_CONFIG, getStatusStyle } from "../lib/format";
+import { collectTags } from "../lib/library";
+import { DEFAULT_SEARCH_STATUSES, EMPTY_SCOPE, isScopeEmpty } from "../lib/searchScope";
+import type { Document, GlobalAskScope } from "../types";
+
+interface SearchScopePickerProps {
+  scope: GlobalAskScope;
+  documents: Document[];
+  onChange: (scope: GlobalAskScope) => void;
+  disabled?: boolean;
+}
+
+const toggle = <T,>(values: T[] | undefined, value: T): T[] | undefined => {
+  const next = values?.includes(value) ? values.filter(v => v !== value) : [...(values ?? []), value];
+  return next.length ? next : undefined;
+};
+
+const DATE_INPUT_CLASS = "flex-1 min-w-0 bg-gray-900 text-[11px] px-2 py-1 rounded border border-gray-700 outline-none focus:border-blue-500 [color-scheme:dark]";
+
+export default function SearchScopePicker({ scope, documents, onChange, disabled }: SearchScopePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!panelRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const tags = useMemo(() => collectTags(documents), [documents]);
+  const statuses = scope.statuses?.length ? scope.statuses : DEFAULT_SEARCH_STATUSES;
+  // Only documents the status filter lets through can be picked
+  const pickable = documents.filter(d =>
+    statuses.includes(d.status) && d.title.toLowerCase().includes(query.trim().toLowerCase())
+  );
+
+  const sectionTitle = "text-[10px] font-bold text-gray-500 uppercase mb-1.5";
+  const chipClass = (active: boolean) =>
+    `text-[11px] px-2 py-0.5 rounded-full border transition ${
+      active ? "bg-blue-500/20 border-blue-500/40 text-blue-300" : "border-gray-700 text-gray-400 hover:text-gray-200"
+    }`;
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className={`text-[11px] font-semibold px-2 py-0.5 rounded-full border flex items-center gap-1 transition disabled:opacity-40 ${
+          isScopeEmpty(scope) ? "border-gray-700 text-gray-400 hover:text-white" : "border-blue-500/40 text-blue-300"
+        }`}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+      >
+        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+        </svg>
+        Scope
+      </button>
+
+      {isOpen && (
+        <div role="dialog" aria-label="Search scope" className="absolute left-0 bottom-full mb-2 z-30 w-80 bg-gray-800 border border-gray-700 rounded-xl shadow-xl p-3 space-y-3">
+          <div>
+            <div className="flex items-center justify-between">
+              <p className={sectionTitle}>Documents</p>
+              {scope.document_ids && (
+                <button type="button" onClick={() => onChange({ ...scope, document_ids: undefined })} className="text-[10px] text-gray-500 hover:text-white mb-1.5">
+                  Any document
+                </button>
+              )}
+            </div>
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Filter documents"
+              className="w-full bg-gray-900 text-[11px] px-2 py-1 rounded border border-gray-700 outline-none focus:border-blue-500 mb-1"
+            />
+            <ul className="max-h-36 overflow-y-auto custom-scrollbar">
+              {pickable.length === 0 ? (
+                <li className="text-[11px] text-gray-600 px-1 py-1">No matching documents</li>
+              ) : pickable.map(doc => (
+                <li key={doc.id}>
+                  <label className="flex items-center gap-2 px-1 py-1 rounded hover:bg-gray-700/50 cursor-pointer text-[11px]">
+                    <input
+                      type="checkbox"
+                      checked={scope.document_ids?.includes(doc.id) ?? false}
+                      onChange={() => onChange({ ...scope, document_ids: toggle(scope.document_ids, doc.id) })}
+                      className="w-3 h-3 rounded border-gray-600 bg-gray-900"
+                    />
+                    <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${getStatusStyle(doc.status).dotColor}`}></span>
+                    <span className="truncate">{doc.title}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {tags.length > 0 && (
+            <div>
+              <p className={sectionTitle}>Tags</p>
+              <div className="flex flex-wrap gap-1">
+                {tags.map(({ tag }) => (
+                  <button key={tag} type="button" onClick={() => onChange({ ...scope, tags: toggle(scope.tags, tag) })} className={chipClass(scope.tags?.includes(tag) ?? false)}>
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <p className={sectionTitle}>Status</p>
+            <div className="flex flex-wrap gap-1">
+              {DOCUMENT_STATUSES.map(status => (
+                <button key={status} type="button" onClick={() => onChange({ ...scope, statuses: toggle(scope.statuses, status) })} className={chipClass(scope.statuses?.includes(status) ?? false)}>
+                  {STATUS_CONFIG[status].label}
+                </button>
+              ))}
+            </div>
+            {!scope.statuses?.length && <p className="text-[10px] text-gray-600 mt-1">Only ready documents are searched unless you pick a status.</p>}
+          </div>
+
+          <div>
+            <p className={sectionTitle}>Uploaded</p>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={scope.created_after ?? ""}
+                max={scope.created_before}
+                onChange={(e) => onChange({ ...scope, created_after: e.target.value || undefined })}
+                className={DATE_INPUT_CLASS}
+                aria-label="Uploaded on or after"
+              />
+              <span className="text-[10px] text-gray-500">to</span>
+              <input
+                type="date"
+                value={scope.created_before ?? ""}
+                min={scope.created_after}
+                onChange={(e) => onChange({ ...scope, created_before: e.target.value || undefined })}
+                className={DATE_INPUT_CLASS}
+                aria-label="Uploaded on or before"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-between pt-1 border-t border-gray-700">
+            <button type="button" onClick={() => onChange(EMPTY_SCOPE)} disabled={isScopeEmpty(scope)} className="text-[11px] text-gray-400 hover:text-white disabled:opacity-40 pt-2">
+              Reset
+            </button>
+            <button type="button" onClick={() => setIsOpen(false)} className="text-[11px] font-bold text-blue-400 hover:text-blue-300 pt-2">
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
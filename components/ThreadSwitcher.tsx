@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import ConfirmDialog from "./ConfirmDialog";
+import { useConfirm } from "../lib/useConfirm";
+import type { Thread } from "../lib/threads";
+
+interface ThreadSwitcherProps {
+  threads: Thread[];
+  activeThreadId: string | null;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+export default function ThreadSwitcher({
+  threads,
+  activeThreadId,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete
+}: ThreadSwitcherProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState("");
+  const { request: confirmRequest, confirm, settle } = useConfirm();
+
+  const activeThread = threads.find(t => t.id === activeThreadId);
+
+  const submitRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeThread || !draftTitle.trim()) return;
+    try {
+      await onRename(activeThread.id, draftTitle.trim());
+      setIsRenaming(false);
+    } catch (err) {
+      console.error("Rename error:", err);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeThread) return;
+    const confirmed = await confirm({
+      title: "Delete conversation?",
+      message: `"${activeThread.title}" and its ${activeThread.messages.length} messages will be deleted.`,
+      confirmLabel: "Delete",
+      tone: "danger"
+    });
+    if (!confirmed) return;
+    try {
+      await onDelete(activeThread.id);
+    } catch (err) {
+      console.error("Delete thread error:", err);
+    }
+  };
+
+  if (isRenaming && activeThread) {
+    return (
+      <form onSubmit={submitRename} className="flex items-center gap-2">
+        <input
+          autoFocus
+          value={draftTitle}
+          onChange={(e) => setDraftTitle(e.target.value)}
+          onKeyDown={(e) => e.key === "Escape" && setIsRenaming(false)}
+          className="flex-1 min-w-0 bg-gray-800 text-xs px-3 py-1.5 rounded-lg border border-gray-700 outline-none focus:border-blue-500 transition"
+        />
+        <button type="submit" className="text-[10px] font-bold text-blue-400 hover:text-blue-300 transition">Save</button>
+        <button type="button" onClick={() => setIsRenaming(false)} className="text-[10px] text-gray-500 hover:text-gray-300 transition">Cancel</button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={activeThreadId ?? ""}
+        onChange={(e) => e.target.value ? onSelect(e.target.value) : onNew()}
+        disabled={disabled}
+        className="flex-1 min-w-0 bg-gray-800 text-xs px-2 py-1.5 rounded-lg border border-gray-700 outline-none focus:border-blue-500 transition disabled:opacity-50"
+        aria-label="Conversation thread"
+      >
+        <option value="">{activeThreadId ? "+ New conversation" : "New conversation"}</option>
+        {threads.map(thread => (
+          <option key={thread.id} value={thread.id}>
+            {thread.title} ({thread.messages.length})
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={onNew}
+        disabled={disabled || !activeThreadId}
+        className="text-gray-500 hover:text-white transition p-1 disabled:opacity-30"
+        title="New conversation"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" />
+        </svg>
+      </button>
+      <button
+        type="button"
+        onClick={() => { setDraftTitle(activeThread?.title ?? ""); setIsRenaming(true); }}
+        disabled={disabled || !activeThread}
+        className="text-gray-500 hover:text-white transition p-1 disabled:opacity-30"
+        title="Rename conversation"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+        </svg>
+      </button>
+      <button
+        type="button"
+        onClick={handleDelete}
+        disabled={disabled || !activeThread}
+        className="text-gray-500 hover:text-red-500 transition p-1 disabled:opacity-30"
+        title="Delete conversation"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+        </svg>
+      </button>
+      <ConfirmDialog request={confirmRequest} onSettle={settle} />
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import DocumentIcon from "./DocumentIcon";
+import { TRASH_RETENTION_DAYS, describePurge } from "../lib/library";
+import { formatTimestamp } from "../lib/format";
+import type { Document } from "../types";
+
+interface TrashViewProps {
+  documents: Document[];
+  isWorking: boolean;
+  onRestore: (ids: number[]) => Promise<void>;
+  // Asks for confirmation itself
+  onPurge: (documents: Document[]) => Promise<void>;
+}
+
+export default function TrashView({ documents, isWorking, onRestore, onPurge }: TrashViewProps) {
+  const [checkedIds, setCheckedIds] = useState<number[]>([]);
+  // Restored or purged documents drop out of the selection on their own
+  const selected = documents.filter(d => checkedIds.includes(d.id));
+  const allSelected = documents.length > 0 && selected.length === documents.length;
+
+  const toggle = (id: number) => {
+    setCheckedIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3 mb-3 px-1">
+        <p className="text-[11px] text-gray-500">
+          Documents in the trash are deleted forever after {TRASH_RETENTION_DAYS} days.
+        </p>
+        <button
+          onClick={() => onPurge(documents)}
+          disabled={isWorking || documents.length === 0}
+          className="text-[11px] font-bold text-red-400 hover:text-red-300 disabled:opacity-40 flex-shrink-0"
+        >
+          Empty trash
+        </button>
+      </div>
+
+      {selected.length > 0 && (
+        <div className="flex items-center gap-3 mb-3 p-2 rounded-xl bg-blue-500/10 border border-blue-500/20">
+          <span className="text-xs font-semibold text-blue-300 px-1">{selected.length} selected</span>
+          <button
+            onClick={() => onRestore(selected.map(d => d.id))}
+            disabled={isWorking}
+            className="text-[11px] font-bold text-blue-400 hover:text-blue-300 disabled:opacity-40"
+          >
+            Restore
+          </button>
+          <button
+            onClick={() => onPurge(selected)}
+            disabled={isWorking}
+            className="text-[11px] font-bold text-red-400 hover:text-red-300 disabled:opacity-40"
+          >
+            Delete forever
+          </button>
+          <div className="flex-1"></div>
+          {isWorking && <span className="w-3 h-3 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></span>}
+          <button onClick={() => setCheckedIds([])} disabled={isWorking} className="text-[11px] text-gray-400 hover:text-white px-1 disabled:opacity-40">
+            Clear
+          </button>
+        </div>
+      )}
+
+      {documents.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-64 text-center">
+          <p className="text-gray-500 text-sm">The trash is empty</p>
+          <p className="text-gray-600 text-xs mt-2">Deleted documents stay here for {TRASH_RETENTION_DAYS} days</p>
+        </div>
+      ) : (
+        <div className="space-y-3 max-h-[500px] overflow-y-auto pr-2 custom-scrollbar">
+          <label className="flex items-center gap-2 text-[10px] text-gray-500 px-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={(e) => setCheckedIds(e.target.checked ? documents.map(d => d.id) : [])}
+              className="w-3.5 h-3.5 rounded border-gray-600 bg-gray-800"
+            />
+            Select all ({documents.length})
+          </label>
+          {documents.map(doc => (
+            <div key={doc.id} className="p-4 rounded-xl border bg-gray-800/20 border-gray-800/50 flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={checkedIds.includes(doc.id)}
+                onChange={() => toggle(doc.id)}
+                className="mt-1 w-3.5 h-3.5 rounded border-gray-600 bg-gray-800 flex-shrink-0"
+                aria-label={`Select ${doc.title}`}
+              />
+              <DocumentIcon document={doc} />
+              <div className="flex-1 min-w-0">
+                <h3 className="text-sm font-semibold truncate text-gray-300">{doc.title}</h3>
+                <p className="text-[10px] text-gray-600 mt-1">
+                  {doc.deleted_at && `Deleted ${formatTimestamp(doc.deleted_at)} · `}{describePurge(doc)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => onRestore([doc.id])}
+                  disabled={isWorking}
+                  className="text-[11px] font-bold text-blue-400 hover:text-blue-300 disabled:opacity-40"
+                >
+                  Restore
+                </button>
+                <button
+                  onClick={() => onPurge([doc])}
+                  disabled={isWorking}
+                  className="text-gray-600 hover:text-red-500 transition p-1 disabled:opacity-40"
+                  title="Delete forever"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => Promise<void>;
+  onDismiss: () => void;
+  // How long the undo stays offered
+  duration?: number;
+}
+
+export default function UndoToast({ message, onUndo, onDismiss, duration = 8000 }: UndoToastProps) {
+  const [isUndoing, setIsUndoing] = useState(false);
+
+  useEffect(() => {
+    if (isUndoing) return;
+    const timeout = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timeout);
+  }, [isUndoing, onDismiss, duration]);
+
+  const handleUndo = async () => {
+    setIsUndoing(true);
+    try {
+      await onUndo();
+    } finally {
+      onDismiss();
+    }
+  };
+
+  return (
+    <div
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 bg-gray-800 border border-gray-700 text-white pl-5 pr-3 py-3 rounded-xl shadow-2xl flex items-center gap-4 text-sm"
+      role="status"
+    >
+      <span>{message}</span>
+      <button
+        onClick={handleUndo}
+        disabled={isUndoing}
+        className="font-bold text-blue-400 hover:text-blue-300 transition disabled:opacity-50 flex items-center gap-2"
+      >
+        {isUndoing && <span className="w-3 h-3 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></span>}
+        Undo
+      </button>
+      <button onClick={onDismiss} disabled={isUndoing} className="text-gray-500 hover:text-white transition" title="Dismiss">×</button>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import ThreadSwitcher from "../../components/ThreadSwitcher";
+import ChatExportMenu from "../../components/ChatExportMenu";
+import BulkOperationModal from "../../components/BulkOperationModal";
+import { buildChatExport, type ChatExport } from "../../lib/chatExport";
+import { documentScope, titleFromMessages } from "../../lib/threads";
+import { useDashboard } from "../dashboard/useDashboard";
+import type { ThreadsState } from "./useChatState";
+import type { Document, Message, Thread } from "../../types";
+
+interface ChatToolbarProps {
+  threads: ThreadsState;
+  messages: Message[];
+  // The document chatted about; global search when left out
+  document?: Document;
+  className: string;
+}
+
+// Thread switcher, export/import and clear history for one chat
+export default function ChatToolbar({ threads, messages, document, className }: ChatToolbarProps) {
+  const { chat, notifications } = useDashboard();
+  const { isAsking } = chat;
+  const { notify, setError } = notifications;
+  // The threads being cleared, taken when the confirmation opens; the live list
+  // shrinks as they're deleted
+  const [clearHistoryTargets, setClearHistoryTargets] = useState<Thread[] | null>(null);
+
+  const getExport = () => buildChatExport({
+    title: threads.threads.find(t => t.id === threads.activeThreadId)?.title ?? titleFromMessages(messages),
+    scope: document ? documentScope(document.id) : "global",
+    document: document && { id: document.id, title: document.title },
+    messages
+  });
+
+  // Imports always land in the chat they were imported from, as a new thread
+  const importConversation = async (data: ChatExport) => {
+    await threads.importThread(data.messages, data.title);
+    notify(`Imported "${data.title}"`);
+  };
+
+  // Resolves with the titles of the conversations that couldn't be deleted
+  const clearChatHistory = async (onProgress: (done: number) => void) => {
+    const { failed } = await threads.clearThreads(onProgress);
+    if (failed.length === 0) notify("Chat history cleared");
+    return (clearHistoryTargets ?? []).filter(t => failed.includes(t.id)).map(t => t.title);
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex-1 min-w-0">
+        <ThreadSwitcher
+          threads={threads.threads}
+          activeThreadId={threads.activeThreadId}
+          disabled={isAsking}
+          onSelect={threads.selectThread}
+          onNew={threads.startNewThread}
+          onRename={threads.renameThread}
+          onDelete={threads.removeThread}
+        />
+      </div>
+      <ChatExportMenu
+        getExport={getExport}
+        onImport={importConversation}
+        onError={setError}
+        disabled={isAsking}
+        isEmpty={messages.length === 0}
+      />
+      <button
+        onClick={() => setClearHistoryTargets(threads.threads)}
+        disabled={isAsking || (threads.threads.length === 0 && messages.length === 0)}
+        className="text-gray-500 hover:text-red-400 transition p-1 disabled:opacity-30"
+        title="Clear chat history"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+        </svg>
+      </button>
+
+      {clearHistoryTargets && (
+        <BulkOperationModal
+          title="Clear chat history?"
+          confirmLabel="Clear history"
+          progressLabel="Deleting conversation"
+          failedLabel="could not be deleted"
+          total={clearHistoryTargets.length}
+          run={clearChatHistory}
+          onClose={() => setClearHistoryTargets(null)}
+        >
+          <p>
+            {clearHistoryTargets.length} conversation{clearHistoryTargets.length === 1 ? "" : "s"} (
+            {clearHistoryTargets.reduce((count, thread) => count + thread.messages.length, 0)} messages) in{" "}
+            {document ? <>the chat with <span className="text-white">{document.title}</span></> : "global search"} will be deleted.
+            This cannot be undone.
+          </p>
+        </BulkOperationModal>
+      )}
+    </div>
+  );
+}
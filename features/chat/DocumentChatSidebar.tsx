@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import Markdown from "../../components/Markdown";
+import CopyButton from "../../components/CopyButton";
+import { getFileType, isPdf } from "../../lib/fileTypes";
+import { getStatusStyle } from "../../lib/format";
+import { citationId } from "../../lib/markdown";
+import { useDashboard } from "../dashboard/useDashboard";
+import ChatToolbar from "./ChatToolbar";
+import { useAsk } from "./useAsk";
+import { useAutoScroll } from "./useAutoScroll";
+import type { Document, Source } from "../../types";
+
+const formatSources = (sources?: Source[]): string => {
+  if (!sources || sources.length === 0) return "";
+  const hasPages = sources.some(s => s.page !== undefined);
+  if (hasPages) {
+    const pageNumbers = sources
+      .map(s => s.page)
+      .filter((page): page is number => page !== undefined)
+      .filter((page, index, self) => self.indexOf(page) === index)
+      .sort((a, b) => a - b);
+    if (pageNumbers.length === 0) return "";
+    return `Page${pageNumbers.length > 1 ? 's' : ''} ${pageNumbers.join(", ")}`;
+  }
+  return `${sources.length} sources`;
+};
+
+// The open document's chat, docked on the right
+export default function DocumentChatSidebar({ document: activeDoc }: { document: Document }) {
+  const { chat, library } = useDashboard();
+  const { setActiveDoc, setViewer, openViewer } = library;
+  const { messages, docThreads, isAsking, cancelAsk } = chat;
+  const [input, setInput] = useState("");
+  const ask = useAsk();
+  const messagesEndRef = useAutoScroll(messages);
+
+  const handleAsk = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim()) return;
+    setInput("");
+    ask(input, "specific");
+  };
+
+  return (
+    <aside className="w-[500px] bg-gray-900 border-l border-gray-800 fixed right-0 h-full flex flex-col animate-in slide-in-from-right">
+      <div className="p-6 border-b border-gray-800 flex justify-between items-center">
+        <div className="flex-1 min-w-0">
+          <h3 className="font-bold truncate">
+            <Link href={`/dashboard/documents/${activeDoc.id}`} className="hover:text-blue-400 transition" title="Document details">
+              {activeDoc.title}
+            </Link>
+          </h3>
+          <span className={`text-[10px] font-bold uppercase ${getStatusStyle(activeDoc.status).textColor}`}>
+            {activeDoc.status}
+          </span>
+          <span className="text-[10px] text-gray-500 ml-2">{getFileType(activeDoc.content_type)?.label ?? activeDoc.content_type}</span>
+        </div>
+        {isPdf(activeDoc.content_type) && (
+          <button
+            onClick={() => openViewer(activeDoc.id)}
+            className="text-gray-500 hover:text-white transition ml-4"
+            title="View document"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+            </svg>
+          </button>
+        )}
+        <button
+          onClick={() => {
+            cancelAsk();
+            setActiveDoc(null);
+            setViewer(null);
+          }}
+          className="text-gray-500 hover:text-white transition ml-4"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+      <ChatToolbar
+        threads={docThreads}
+        messages={messages}
+        document={activeDoc}
+        className="px-6 py-3 border-b border-gray-800 flex items-center gap-2"
+      />
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-4 custom-scrollbar">
+        {messages.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-center">
+            <svg className="w-16 h-16 text-blue-500/20 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+            </svg>
+            <p className="text-gray-500 text-sm">Start asking questions about this document</p>
+          </div>
+        ) : (
+          messages.map(msg => (
+            <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] p-4 rounded-xl ${msg.role === 'user' ? 'bg-blue-600' : 'bg-gray-800 border border-gray-700'}`}>
+                {msg.isStreaming && !msg.content ? (
+                  <div className="flex gap-1 py-1">
+                    <span className="w-2 h-2 bg-gray-500 rounded-full animate-bounce"></span>
+                    <span className="w-2 h-2 bg-gray-500 rounded-full animate-bounce [animation-delay:150ms]"></span>
+                    <span className="w-2 h-2 bg-gray-500 rounded-full animate-bounce [animation-delay:300ms]"></span>
+                  </div>
+                ) : msg.role === "ai" ? (
+                  <>
+                    <Markdown
+                      className="text-sm"
+                      sources={msg.sources}
+                      citationPrefix={msg.id}
+                      onCitationClick={(i) => {
+                        const source = msg.sources?.[i];
+                        if (source && isPdf(activeDoc.content_type)) openViewer(activeDoc.id, msg.sources, source);
+                      }}
+                    >
+                      {msg.content}
+                    </Markdown>
+                    {msg.isStreaming && <span className="inline-block w-1.5 h-4 ml-0.5 bg-blue-400 align-middle animate-pulse"></span>}
+                    {!msg.isStreaming && <CopyButton text={msg.content} label="Copy answer" className="mt-2" />}
+                  </>
+                ) : (
+                  <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                )}
+                {msg.sources && msg.sources.length > 0 && (
+                  <div className="mt-2 pt-2 border-t border-gray-700">
+                    <p className="text-[10px] text-blue-400 font-bold">
+                      📖 {formatSources(msg.sources)}
+                    </p>
+                    <div className="flex flex-wrap gap-1 mt-1.5">
+                      {msg.sources.map((source, i) => (
+                        <button
+                          key={i}
+                          id={citationId(msg.id, i + 1)}
+                          onClick={() => openViewer(activeDoc.id, msg.sources, source)}
+                          disabled={!isPdf(activeDoc.content_type)}
+                          className="disabled:hover:bg-blue-500/10 disabled:cursor-default text-[10px] px-2 py-0.5 rounded-full bg-blue-500/10 border border-blue-500/20 text-blue-400 hover:bg-blue-500/20 transition"
+                          title={source.text}
+                        >
+                          [{i + 1}]{source.page !== undefined && ` p.${source.page}`}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+        <div ref={messagesEndRef} />
+      </div>
+
+      <form onSubmit={handleAsk} className="p-6 border-t border-gray-800">
+        <div className="flex gap-2">
+          <input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={getFileType(activeDoc.content_type)?.kind === "image" ? "Ask about this image..." : "Ask about this document..."}
+            className="flex-1 bg-gray-800 rounded-xl px-4 py-3 text-sm outline-none focus:ring-1 focus:ring-blue-500 border border-gray-700"
+            disabled={isAsking}
+          />
+          {isAsking ? (
+            <button
+              type="button"
+              onClick={cancelAsk}
+              title="Stop generating"
+              className="bg-gray-700 hover:bg-gray-600 p-3 rounded-xl transition"
+            >
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                <rect x="6" y="6" width="12" height="12" rx="2" />
+              </svg>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim()}
+              className="bg-blue-600 hover:bg-blue-500 p-3 rounded-xl transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M14 5l7 7m0 0l-7 7m7-7H3" />
+              </svg>
+            </button>
+          )}
+        </div>
+      </form>
+    </aside>
+  );
+}
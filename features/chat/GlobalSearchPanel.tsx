@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import Markdown from "../../components/Markdown";
+import CopyButton from "../../components/CopyButton";
+import SearchScopePicker from "../../components/SearchScopePicker";
+import { ALL_DOCUMENTS, collectionLabel } from "../../lib/library";
+import { describeScope, isScopeEmpty, normalizeScope, scopeChips } from "../../lib/searchScope";
+import { citationId } from "../../lib/markdown";
+import { useDashboard } from "../dashboard/useDashboard";
+import ChatToolbar from "./ChatToolbar";
+import { useAsk } from "./useAsk";
+import { useAutoScroll } from "./useAutoScroll";
+
+interface GlobalSearchPanelProps {
+  // Fills the page (/dashboard/search) instead of the fixed-height panel
+  fullHeight?: boolean;
+}
+
+export default function GlobalSearchPanel({ fullHeight = false }: GlobalSearchPanelProps) {
+  const { chat, library } = useDashboard();
+  const { documents, folders, collection, selectCollection, openViewer, canPreview } = library;
+  const {
+    globalMessages,
+    globalThreads,
+    isAsking,
+    cancelAsk,
+    searchScope,
+    setSearchScope,
+    isScopedSearch,
+    searchableDocuments,
+    isGlobalScoped
+  } = chat;
+  const [globalInput, setGlobalInput] = useState("");
+  const ask = useAsk();
+  const globalMessagesEndRef = useAutoScroll(globalMessages);
+
+  const handleAsk = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!globalInput.trim()) return;
+    setGlobalInput("");
+    ask(globalInput, "global");
+  };
+
+  return (
+    <div className={`bg-gray-900/40 border border-blue-500/20 rounded-2xl flex flex-col shadow-2xl overflow-hidden ${fullHeight ? "h-[calc(100vh-12rem)] min-h-[500px]" : "h-[500px]"}`}>
+      <div className="px-6 py-3 border-b border-blue-500/10 flex items-center justify-between">
+        <h2 className="text-xs font-bold text-blue-400 uppercase tracking-widest">Global Intelligence Search</h2>
+        <span className="text-[10px] bg-blue-500/10 text-blue-400 px-2 py-0.5 rounded-full border border-blue-500/20">
+          {searchableDocuments.length} Documents
+        </span>
+      </div>
+      <ChatToolbar
+        threads={globalThreads}
+        messages={globalMessages}
+        className="px-6 py-2 border-b border-blue-500/10 flex items-center gap-2"
+      />
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        {globalMessages.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-center">
+            <svg className="w-16 h-16 text-blue-500/20 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+            <p className="text-gray-500 text-sm">Ask a question across all your documents</p>
+            <p className="text-gray-600 text-xs mt-2">Upload and analyze documents to get started</p>
+          </div>
+        ) : (
+          globalMessages.map(msg => (
+            <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[80%] p-4 rounded-2xl ${msg.role === 'user' ? 'bg-blue-600' : 'bg-gray-800/80 border border-gray-700'}`}>
+                {msg.isStreaming && !msg.content ? (
+                  <div className="flex gap-1 py-1">
+                    <span className="w-2 h-2 bg-gray-500 rounded-full animate-bounce"></span>
+                    <span className="w-2 h-2 bg-gray-500 rounded-full animate-bounce [animation-delay:150ms]"></span>
+                    <span className="w-2 h-2 bg-gray-500 rounded-full animate-bounce [animation-delay:300ms]"></span>
+                  </div>
+                ) : msg.role === "ai" ? (
+                  <>
+                    <Markdown
+                      className="text-sm"
+                      sources={msg.sources}
+                      citationPrefix={msg.id}
+                      onCitationClick={(i) => {
+                        const source = msg.sources?.[i];
+                        if (source?.document_id !== undefined && canPreview(source.document_id)) {
+                          openViewer(source.document_id, msg.sources, source);
+                        }
+                      }}
+                    >
+                      {msg.content}
+                    </Markdown>
+                    {msg.isStreaming && <span className="inline-block w-1.5 h-4 ml-0.5 bg-blue-400 align-middle animate-pulse"></span>}
+                    {!msg.isStreaming && <CopyButton text={msg.content} label="Copy answer" className="mt-2" />}
+                  </>
+                ) : (
+                  <>
+                    <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                    {msg.scope && !isScopeEmpty(msg.scope) && (
+                      <div className="mt-2 pt-1.5 border-t border-blue-400/30 flex items-center gap-2 text-[10px] text-blue-100/80">
+                        <span className="truncate" title={describeScope(msg.scope, documents)}>
+                          Scope: {describeScope(msg.scope, documents)}
+                        </span>
+                        <button
+                          onClick={() => { selectCollection(ALL_DOCUMENTS); setSearchScope(msg.scope!); }}
+                          disabled={isAsking}
+                          className="font-bold hover:text-white flex-shrink-0 disabled:opacity-50"
+                          title="Search this scope again"
+                        >
+                          Reuse
+                        </button>
+                      </div>
+                    )}
+                  </>
+                )}
+                {msg.sources && msg.sources.length > 0 && (
+                  <div className="mt-2 text-[10px] text-gray-400 border-t border-gray-700 pt-2">
+                    📚 Found in: {msg.sources.map(s => s.document_title).filter(Boolean).join(", ")}
+                    <div className="flex flex-wrap gap-1 mt-1.5">
+                      {msg.sources.map((source, i) => source.document_id !== undefined && (
+                        <button
+                          key={i}
+                          id={citationId(msg.id, i + 1)}
+                          onClick={() => openViewer(source.document_id!, msg.sources, source)}
+                          disabled={!canPreview(source.document_id)}
+                          className="px-2 py-0.5 rounded-full bg-blue-500/10 border border-blue-500/20 text-blue-400 hover:bg-blue-500/20 transition disabled:hover:bg-blue-500/10 disabled:cursor-default"
+                          title={source.text}
+                        >
+                          [{i + 1}] {source.document_title}{source.page !== undefined && ` p.${source.page}`}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+        <div ref={globalMessagesEndRef} />
+      </div>
+
+      <form onSubmit={handleAsk} className="p-4 bg-gray-950/30 border-t border-gray-800">
+        <div className="flex flex-wrap items-center gap-1.5 mb-2">
+          <SearchScopePicker scope={searchScope} documents={documents} onChange={setSearchScope} disabled={isAsking} />
+          {isScopedSearch && (
+            <span className="text-[10px] bg-purple-500/10 text-purple-300 px-2 py-0.5 rounded-full border border-purple-500/20 flex items-center gap-1">
+              In {collectionLabel(collection, folders)}
+              <button type="button" onClick={() => selectCollection(ALL_DOCUMENTS)} className="hover:text-white" title="Search the whole library">×</button>
+            </span>
+          )}
+          {scopeChips(normalizeScope(searchScope), documents).map(chip => (
+            <span
+              key={chip.key}
+              className="text-[10px] bg-blue-500/10 text-blue-300 px-2 py-0.5 rounded-full border border-blue-500/20 flex items-center gap-1 max-w-[200px]"
+              title={chip.title}
+            >
+              <span className="truncate">{chip.label}</span>
+              <button type="button" onClick={() => setSearchScope(prev => chip.remove(prev))} className="hover:text-white" title="Remove filter">×</button>
+            </span>
+          ))}
+          {!isGlobalScoped && <span className="text-[10px] text-gray-600">All ready documents</span>}
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={globalInput}
+            onChange={(e) => setGlobalInput(e.target.value)}
+            placeholder={isGlobalScoped ? `Ask a question across ${searchableDocuments.length} scoped document${searchableDocuments.length === 1 ? "" : "s"}...` : "Ask a question across all your documents..."}
+            className="flex-1 bg-gray-800 border-gray-700 rounded-xl px-4 py-3 text-sm focus:ring-1 focus:ring-blue-500 outline-none"
+            disabled={isAsking || searchableDocuments.length === 0}
+          />
+          {isAsking ? (
+            <button
+              type="button"
+              onClick={cancelAsk}
+              className="bg-gray-700 hover:bg-gray-600 px-6 rounded-xl font-bold transition flex items-center gap-2"
+            >
+              <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+              Stop
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!globalInput.trim() || searchableDocuments.length === 0}
+              className="bg-blue-600 hover:bg-blue-500 px-6 rounded-xl font-bold transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {isGlobalScoped ? "Ask" : "Ask All"}
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M14 5l7 7m0 0l-7 7m7-7H3" />
+              </svg>
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+// features/chat/useAsk.ts
+import { streamDocumentAnswer, streamGlobalAnswer } from '../../lib/sdk';
+import { errorMessage } from '../../lib/errors';
+import { documentScope } from '../../lib/threads';
+import { EMPTY_SCOPE } from '../../lib/searchScope';
+import { useDashboard } from '../dashboard/useDashboard';
+import { generateMessageId } from './useChatState';
+import type { Message, Source } from '../../types';
+
+const QUEUED_ANSWER = "⏳ You're offline. This question is queued and will be sent when you reconnect.";
+
+// ✅ ASK IN THE GLOBAL SEARCH OR THE OPEN DOCUMENT'S CHAT
+// The answer streams into the chat; offline, the question is queued in the
+// outbox with a placeholder answer instead.
+export const useAsk = () => {
+  const { chat, library, outbox } = useDashboard();
+  const { activeDoc } = library;
+  const { setMessages, setGlobalMessages, setIsAsking, abortControllerRef, globalAskScope } = chat;
+
+  return async (text: string, type: 'global' | 'specific') => {
+    const isGlobal = type === 'global';
+    if (!text.trim()) return;
+
+    const scope = isGlobal ? globalAskScope : undefined;
+    const userMsg: Message = {
+      role: 'user',
+      content: text,
+      timestamp: Date.now(),
+      id: generateMessageId(),
+      isGlobal,
+      scope,
+    };
+
+    const setThread = isGlobal ? setGlobalMessages : setMessages;
+    setThread(prev => [...prev, userMsg]);
+
+    const aiMsgId = generateMessageId();
+    const updateAiMsg = (update: (msg: Message) => Message) => {
+      setThread(prev => prev.map(m => (m.id === aiMsgId ? update(m) : m)));
+    };
+
+    if (!outbox.isOnline) {
+      setThread(prev => [...prev, { role: 'ai', content: QUEUED_ANSWER, timestamp: Date.now(), id: aiMsgId, isGlobal, scope }]);
+      outbox.enqueue({
+        type: 'ask',
+        question: text,
+        thread_scope: activeDoc && !isGlobal ? documentScope(activeDoc.id) : 'global',
+        scope,
+        message_id: aiMsgId,
+      }).catch(err => {
+        console.error("Outbox error:", err);
+        updateAiMsg(m => ({ ...m, content: "Could not queue this question. Please ask again when you're back online." }));
+      });
+      return;
+    }
+
+    setThread(prev => [...prev, {
+      role: 'ai',
+      content: '',
+      timestamp: Date.now(),
+      id: aiMsgId,
+      isGlobal,
+      scope,
+      isStreaming: true,
+    }]);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsAsking(true);
+
+    try {
+      const handlers = {
+        onToken: (token: string) => updateAiMsg(m => ({ ...m, content: m.content + token })),
+        onSources: (sources: Source[]) => updateAiMsg(m => ({ ...m, sources })),
+      };
+      if (isGlobal) {
+        await streamGlobalAnswer(text, scope ?? EMPTY_SCOPE, handlers, { signal: controller.signal });
+      } else if (activeDoc) {
+        await streamDocumentAnswer(activeDoc.id, text, handlers, { signal: controller.signal });
+      }
+
+      updateAiMsg(m => ({ ...m, timestamp: Date.now(), isStreaming: false }));
+    } catch (err) {
+      if (controller.signal.aborted) {
+        updateAiMsg(m => ({
+          ...m,
+          content: m.content || "Response cancelled.",
+          isStreaming: false,
+        }));
+        return;
+      }
+
+      console.error("AI error:", err);
+      const errorContent = errorMessage(err, "Sorry, I couldn't process your question. Please try again.");
+
+      updateAiMsg(m => ({
+        ...m,
+        content: m.content ? `${m.content}\n\n${errorContent}` : errorContent,
+        timestamp: Date.now(),
+        isStreaming: false,
+      }));
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      setIsAsking(false);
+    }
+  };
+};
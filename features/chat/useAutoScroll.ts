@@ -0,0 +1,11 @@
+// features/chat/useAutoScroll.ts
+import { useEffect, useRef } from 'react';
+
+// Keeps the end of a chat in view as messages arrive
+export const useAutoScroll = (dependency: unknown) => {
+  const elementRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    elementRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [dependency]);
+  return elementRef;
+};
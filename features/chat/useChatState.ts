@@ -0,0 +1,74 @@
+// features/chat/useChatState.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { documentScope } from '../../lib/threads';
+import { useThreads } from '../../lib/useThreads';
+import { EMPTY_SCOPE, isScopeEmpty, matchesScope, normalizeScope, restrictScope } from '../../lib/searchScope';
+import type { LibraryState } from '../library/useLibraryState';
+import type { GlobalAskScope, Message } from '../../types';
+
+export const generateMessageId = (): string => {
+  return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+// ✅ THE GLOBAL SEARCH CHAT AND THE OPEN DOCUMENT'S CHAT
+// Only one answer streams at a time, across both chats.
+export const useChatState = (
+  isAuthenticated: boolean,
+  { activeDoc, documents, collection, collectionDocuments }: LibraryState
+) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [globalMessages, setGlobalMessages] = useState<Message[]>([]);
+  const [isAsking, setIsAsking] = useState(false);
+  const [searchScope, setSearchScope] = useState<GlobalAskScope>(EMPTY_SCOPE);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const globalThreads = useThreads(isAuthenticated ? 'global' : null, globalMessages, setGlobalMessages);
+  const docThreads = useThreads(activeDoc ? documentScope(activeDoc.id) : null, messages, setMessages);
+
+  // Latest messages, for answers that arrive after the chat has moved on
+  const messagesRef = useRef(messages);
+  const globalMessagesRef = useRef(globalMessages);
+  useEffect(() => {
+    messagesRef.current = messages;
+    globalMessagesRef.current = globalMessages;
+  }, [messages, globalMessages]);
+
+  const cancelAsk = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Stop any in-flight answer when leaving the dashboard
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Global search covers the selected collection's analyzed documents
+  // The trash isn't searchable, so viewing it leaves global search unscoped
+  const isScopedSearch = collection.type !== 'all' && collection.type !== 'trash';
+  // The collection being viewed narrows whatever the scope picker selected
+  const globalAskScope = normalizeScope(
+    isScopedSearch ? restrictScope(searchScope, collectionDocuments.map(d => d.id)) : searchScope
+  );
+
+  return {
+    messages,
+    setMessages,
+    messagesRef,
+    globalMessages,
+    setGlobalMessages,
+    globalMessagesRef,
+    globalThreads,
+    docThreads,
+    isAsking,
+    setIsAsking,
+    abortControllerRef,
+    cancelAsk,
+    searchScope,
+    setSearchScope,
+    isScopedSearch,
+    globalAskScope,
+    searchableDocuments: documents.filter(d => matchesScope(d, globalAskScope)),
+    isGlobalScoped: isScopedSearch || !isScopeEmpty(searchScope),
+  };
+};
+
+export type ChatState = ReturnType<typeof useChatState>;
+export type ThreadsState = ChatState['docThreads'];
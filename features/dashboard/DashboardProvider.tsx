@@ -0,0 +1,42 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { loginUrl } from "../../lib/routes";
+import { clearSessionFlag, hasSession } from "../../lib/session";
+import { registerServiceWorker } from "../../lib/offline";
+import { useNotifications } from "../notifications/useNotifications";
+import { useLibraryState } from "../library/useLibraryState";
+import { useChatState } from "../chat/useChatState";
+import { useUploader } from "../uploader/useUploader";
+import { useOfflineSync } from "./useOfflineSync";
+import { DashboardContext } from "./useDashboard";
+
+export default function DashboardProvider({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+
+  useEffect(() => {
+    if (!hasSession()) {
+      // proxy.ts only sees the flag cookie; drop it if the tokens are gone
+      clearSessionFlag();
+      const { pathname, search } = window.location;
+      router.replace(loginUrl(`${pathname}${search}`));
+    } else {
+      registerServiceWorker();
+      setIsAuthenticated(true);
+    }
+  }, [router]);
+
+  const notifications = useNotifications();
+  const library = useLibraryState(isAuthenticated, notifications);
+  const chat = useChatState(isAuthenticated, library);
+  const uploads = useUploader(library, notifications.notify);
+  const outbox = useOfflineSync({ isAuthenticated, library, chat, uploads, notifications });
+
+  return (
+    <DashboardContext.Provider value={{ isAuthenticated, notifications, library, chat, uploads, outbox }}>
+      {children}
+    </DashboardContext.Provider>
+  );
+}
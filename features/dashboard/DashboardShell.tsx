@@ -0,0 +1,168 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import PdfViewer from "../../components/PdfViewer";
+import DiagnosticsDrawer from "../../components/DiagnosticsDrawer";
+import { logout } from "../../lib/auth";
+import { describeOutboxEntry } from "../../lib/offline";
+import { formatTimestamp } from "../../lib/format";
+import Notifications from "../notifications/Notifications";
+import DocumentChatSidebar from "../chat/DocumentChatSidebar";
+import { useDashboard } from "./useDashboard";
+
+const NAV_LINKS = [
+  { href: "/dashboard", label: "Library" },
+  { href: "/dashboard/search", label: "Search" }
+];
+
+// Header, offline banner and the panes that open over any workspace page
+export default function DashboardShell({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { isAuthenticated, library, outbox } = useDashboard();
+  const {
+    documents,
+    isLoadingDocs,
+    libraryCachedAt,
+    activeDoc,
+    viewer,
+    setViewer,
+    diagnosticsDoc,
+    setDiagnosticsDocId,
+    startAnalysis,
+    cancelAnalysis
+  } = library;
+
+  const handleLogout = async () => {
+    await logout();
+    router.push("/login");
+  };
+
+  // ============================================================================
+  // LOADING STATE
+  // ============================================================================
+  if (!isAuthenticated || (isLoadingDocs && documents.length === 0)) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-gray-950">
+        <div className="text-center">
+          <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-400">Loading your workspace...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // ============================================================================
+  // RENDER
+  // ============================================================================
+  return (
+    <div className="flex h-screen bg-gray-950 text-white font-sans overflow-hidden">
+      <Notifications />
+
+      <div className={`flex-1 flex flex-col transition-all duration-500 ${activeDoc ? "mr-[500px]" : ""}`}>
+        {/* HEADER */}
+        <header className="flex-shrink-0 px-8 py-6 border-b border-gray-800/50 flex justify-between items-center">
+          <div className="flex items-end gap-8">
+            <div>
+              <h1 className="text-3xl font-bold">Smart<span className="text-blue-500">Doc</span></h1>
+              <p className="text-xs text-gray-500 mt-1">Enterprise Document Intelligence</p>
+            </div>
+            <nav className="flex gap-1 text-sm">
+              {NAV_LINKS.map(link => (
+                <Link
+                  key={link.href}
+                  href={link.href}
+                  className={`px-3 py-1.5 rounded-lg transition ${
+                    pathname === link.href ? "bg-gray-800 text-white" : "text-gray-500 hover:text-gray-300"
+                  }`}
+                >
+                  {link.label}
+                </Link>
+              ))}
+            </nav>
+          </div>
+          <div className="flex items-center gap-3">
+            <Link
+              href="/account"
+              className="px-4 py-2 border border-gray-800 rounded-lg hover:bg-gray-900 transition flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+              </svg>
+              Account
+            </Link>
+            <button
+              onClick={handleLogout}
+              className="px-4 py-2 border border-gray-800 rounded-lg hover:bg-gray-900 transition flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+              </svg>
+              Logout
+            </button>
+          </div>
+        </header>
+
+        {/* OFFLINE BANNER */}
+        {(!outbox.isOnline || libraryCachedAt !== null || outbox.entries.length > 0) && (
+          <div
+            className={`flex-shrink-0 px-8 py-2 border-b text-xs flex items-center gap-3 ${
+              outbox.isOnline ? "bg-blue-500/10 border-blue-500/20 text-blue-200" : "bg-amber-500/10 border-amber-500/20 text-amber-200"
+            }`}
+            role="status"
+          >
+            <span className={`w-2 h-2 rounded-full flex-shrink-0 ${outbox.isOnline ? "bg-blue-400 animate-pulse" : "bg-amber-400"}`}></span>
+            <span className="flex-1">
+              {!outbox.isOnline ? "You're offline. " : libraryCachedAt !== null && "The server can't be reached. "}
+              {libraryCachedAt !== null && `Showing the library as of ${formatTimestamp(libraryCachedAt)}. `}
+              {!outbox.isOnline && "Uploads, deletes and questions are queued and sent when you reconnect."}
+              {outbox.isOnline && outbox.entries.length > 0 && "Sending queued actions…"}
+            </span>
+            {outbox.entries.length > 0 && (
+              <span className="font-semibold" title={outbox.entries.map(describeOutboxEntry).join("\n")}>
+                {outbox.entries.length} queued
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* MAIN CONTENT */}
+        <main className="flex-1 overflow-y-auto px-8 py-6">
+          <div className="max-w-7xl mx-auto space-y-6">
+            {children}
+          </div>
+        </main>
+      </div>
+
+      {/* PDF VIEWER PANE */}
+      {viewer && (
+        <div className={`fixed inset-y-0 left-0 z-40 animate-in slide-in-from-left ${activeDoc ? "right-[500px]" : "right-0"}`}>
+          <PdfViewer
+            key={viewer.documentId}
+            documentId={viewer.documentId}
+            title={viewer.title}
+            citations={viewer.citations}
+            activeIndex={viewer.index}
+            onActiveIndexChange={(index) => setViewer(prev => prev && { ...prev, index })}
+            onClose={() => setViewer(null)}
+          />
+        </div>
+      )}
+
+      {/* DIAGNOSTICS DRAWER */}
+      {diagnosticsDoc && (
+        <DiagnosticsDrawer
+          key={diagnosticsDoc.id}
+          document={diagnosticsDoc}
+          onReanalyze={(options) => startAnalysis(diagnosticsDoc, options)}
+          onCancel={() => cancelAnalysis(diagnosticsDoc)}
+          onClose={() => setDiagnosticsDocId(null)}
+        />
+      )}
+
+      {/* SIDEBAR CHAT (SPECIFIC DOC) */}
+      {activeDoc && <DocumentChatSidebar document={activeDoc} />}
+    </div>
+  );
+}
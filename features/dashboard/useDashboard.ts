@@ -0,0 +1,27 @@
+// features/dashboard/useDashboard.ts
+// The dashboard's shared store. DashboardProvider (app/dashboard/layout.tsx)
+// owns the state, so it survives moving between the dashboard's pages; each
+// feature module reads the slices it needs through useDashboard().
+import { createContext, useContext } from 'react';
+import type { ChatState } from '../chat/useChatState';
+import type { LibraryState } from '../library/useLibraryState';
+import type { NotificationsState } from '../notifications/useNotifications';
+import type { UploaderState } from '../uploader/useUploader';
+import type { OutboxState } from './useOfflineSync';
+
+export interface DashboardState {
+  isAuthenticated: boolean;
+  notifications: NotificationsState;
+  library: LibraryState;
+  chat: ChatState;
+  uploads: UploaderState;
+  outbox: OutboxState;
+}
+
+export const DashboardContext = createContext<DashboardState | null>(null);
+
+export const useDashboard = (): DashboardState => {
+  const state = useContext(DashboardContext);
+  if (!state) throw new Error('useDashboard must be used inside <DashboardProvider>');
+  return state;
+};
@@ -0,0 +1,110 @@
+// features/dashboard/useOfflineSync.ts
+import { useCallback, useEffect } from 'react';
+import { askDocument, globalAsk, trashDocument } from '../../lib/sdk';
+import { errorMessage, toApiError } from '../../lib/errors';
+import { createThread, listThreads, updateThread } from '../../lib/threads';
+import { describeOutboxEntry, type OutboxEntry } from '../../lib/offline';
+import { useOutbox } from '../../lib/useOutbox';
+import { generateMessageId, type ChatState } from '../chat/useChatState';
+import type { LibraryState } from '../library/useLibraryState';
+import type { NotificationsState } from '../notifications/useNotifications';
+import type { UploaderState } from '../uploader/useUploader';
+import type { AskResponse, Message } from '../../types';
+
+interface OfflineSyncOptions {
+  isAuthenticated: boolean;
+  library: LibraryState;
+  chat: ChatState;
+  uploads: UploaderState;
+  notifications: NotificationsState;
+}
+
+// ✅ REPLAYS ACTIONS TAKEN OFFLINE INTO THE LIBRARY, THE UPLOADER AND THE CHATS
+export const useOfflineSync = ({ isAuthenticated, library, chat, uploads, notifications }: OfflineSyncOptions) => {
+  const { fetchDocs, fetchTrash, queuedDeleteIdsRef } = library;
+  const { messagesRef, globalMessagesRef, setMessages, setGlobalMessages } = chat;
+  const { reloadThreads: reloadGlobalThreads } = chat.globalThreads;
+  const { reloadThreads: reloadDocThreads } = chat.docThreads;
+  const { addFiles } = uploads;
+  const { notify, setError } = notifications;
+
+  // Fills in the placeholder answer of a queued question, wherever it is now
+  const resolveQueuedAnswer = useCallback(async (entry: Extract<OutboxEntry, { type: 'ask' }>, changes: Partial<Message>) => {
+    const isGlobal = entry.thread_scope === 'global';
+    const patch = (list: Message[]) => list.map(m => (m.id === entry.message_id ? { ...m, ...changes, timestamp: Date.now() } : m));
+
+    // Still on screen: the chat saves it to its thread as usual
+    if ((isGlobal ? globalMessagesRef.current : messagesRef.current).some(m => m.id === entry.message_id)) {
+      (isGlobal ? setGlobalMessages : setMessages)(patch);
+      return;
+    }
+
+    const threads = await listThreads(entry.thread_scope);
+    const thread = threads.find(t => t.messages.some(m => m.id === entry.message_id));
+    if (thread) {
+      await updateThread(thread.id, { messages: patch(thread.messages) });
+    } else {
+      // The offline thread was never saved; keep the exchange in a thread of its own
+      const question: Message = { role: 'user', content: entry.question, timestamp: entry.created_at, id: generateMessageId(), isGlobal, scope: entry.scope };
+      const answer: Message = { role: 'ai', content: '', timestamp: Date.now(), id: entry.message_id, isGlobal, scope: entry.scope, ...changes };
+      await createThread(entry.thread_scope, [question, answer]);
+    }
+    await (isGlobal ? reloadGlobalThreads() : reloadDocThreads());
+  }, [messagesRef, globalMessagesRef, setMessages, setGlobalMessages, reloadGlobalThreads, reloadDocThreads]);
+
+  const replayOutboxEntry = useCallback(async (entry: OutboxEntry) => {
+    switch (entry.type) {
+      case 'upload':
+        // The upload queue validates the file and shows its progress
+        addFiles([{ file: entry.file, path: entry.path }]);
+        return;
+      case 'delete':
+        try {
+          await trashDocument(entry.document_id);
+        } catch (err) {
+          // Already gone is what we wanted
+          if (toApiError(err).status !== 404) throw err;
+        }
+        return;
+      case 'ask': {
+        const documentId = entry.thread_scope === 'global' ? null : Number(entry.thread_scope.split(':')[1]);
+        const response: AskResponse = documentId === null
+          ? await globalAsk(entry.question, entry.scope)
+          : await askDocument(documentId, entry.question);
+        await resolveQueuedAnswer(entry, { content: response.answer, sources: response.sources });
+        return;
+      }
+    }
+  }, [addFiles, resolveQueuedAnswer]);
+
+  const handleOutboxFailed = useCallback((entry: OutboxEntry, err: unknown) => {
+    const message = errorMessage(err, "The server rejected it.");
+    if (entry.type === 'ask') {
+      resolveQueuedAnswer(entry, { content: `Sorry, this queued question couldn't be answered. ${message}` })
+        .catch(resolveErr => console.error("Outbox error:", resolveErr));
+    } else {
+      setError(`${describeOutboxEntry(entry)} failed: ${message}`);
+    }
+  }, [resolveQueuedAnswer, setError]);
+
+  const handleOutboxFlushed = useCallback(() => {
+    notify("Back online: queued actions sent");
+    fetchDocs();
+    fetchTrash();
+  }, [notify, fetchDocs, fetchTrash]);
+
+  const outbox = useOutbox({
+    enabled: isAuthenticated,
+    replay: replayOutboxEntry,
+    onFailed: handleOutboxFailed,
+    onFlushed: handleOutboxFlushed,
+  });
+
+  useEffect(() => {
+    queuedDeleteIdsRef.current = outbox.entries.flatMap(entry => (entry.type === 'delete' ? [entry.document_id] : []));
+  }, [outbox.entries, queuedDeleteIdsRef]);
+
+  return outbox;
+};
+
+export type OutboxState = ReturnType<typeof useOfflineSync>;
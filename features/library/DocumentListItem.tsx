@@ -0,0 +1,166 @@
+"use client";
+
+import Link from "next/link";
+import DocumentIcon from "../../components/DocumentIcon";
+import { folderPath } from "../../lib/library";
+import { formatTimestamp, getStatusStyle } from "../../lib/format";
+import { useDashboard } from "../dashboard/useDashboard";
+import type { Document, DocumentProgress } from "../../types";
+
+const formatProgress = (progress?: DocumentProgress): string => {
+  if (!progress) return "";
+  if (progress.current === undefined || !progress.total) return progress.stage;
+  return `${progress.stage} ${progress.current}/${progress.total}`;
+};
+
+interface DocumentListItemProps {
+  doc: Document;
+  isSelected: boolean;
+  onToggleSelected: () => void;
+  onDelete: () => void;
+}
+
+export default function DocumentListItem({ doc, isSelected, onToggleSelected, onDelete }: DocumentListItemProps) {
+  const { library, chat } = useDashboard();
+  const { activeDoc, setActiveDoc, setViewer, folders, selectCollection, startAnalysis, cancelAnalysis, setDiagnosticsDocId } = library;
+
+  return (
+    <div
+      className={`p-4 rounded-xl border transition ${
+        activeDoc?.id === doc.id
+          ? 'bg-blue-500/10 border-blue-500/50'
+          : 'bg-gray-800/30 border-gray-800/50 hover:bg-gray-800/50'
+      }`}
+    >
+      <div className="flex justify-between items-start gap-3">
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={onToggleSelected}
+          className="mt-1 w-3.5 h-3.5 rounded border-gray-600 bg-gray-800 flex-shrink-0"
+          aria-label={`Select ${doc.title}`}
+        />
+        <DocumentIcon document={doc} />
+        <div className="flex-1 min-w-0">
+          <h3 className="text-sm font-semibold truncate">
+            <Link href={`/dashboard/documents/${doc.id}`} className="hover:text-blue-400 transition">
+              {doc.title}
+            </Link>
+          </h3>
+          <div className="flex items-center gap-2 mt-1">
+            <span className={`text-[10px] font-bold uppercase ${getStatusStyle(doc.status).textColor} flex items-center gap-1`}>
+              <span className={`w-2 h-2 rounded-full ${getStatusStyle(doc.status).dotColor} animate-pulse`}></span>
+              {doc.status}
+            </span>
+            {doc.created_at && (
+              <span className="text-[10px] text-gray-600">
+                {formatTimestamp(doc.created_at)}
+              </span>
+            )}
+          </div>
+          {(doc.folder != null || (doc.tags && doc.tags.length > 0)) && (
+            <div className="flex flex-wrap items-center gap-1.5 mt-1.5">
+              {doc.folder != null && (
+                <button
+                  onClick={() => selectCollection({ type: "folder", id: doc.folder! })}
+                  className="text-[10px] text-gray-500 hover:text-gray-300 truncate max-w-[160px]"
+                >
+                  📁 {folderPath(folders, doc.folder)}
+                </button>
+              )}
+              {doc.tags?.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => selectCollection({ type: "tag", tag })}
+                  className="text-[10px] px-1.5 py-0.5 rounded bg-purple-500/10 text-purple-300 hover:bg-purple-500/20"
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+          {doc.status === "processing" && doc.progress && (
+            <div className="mt-2">
+              <p className="text-[10px] text-blue-400">{formatProgress(doc.progress)}</p>
+              {doc.progress.total ? (
+                <div className="w-full bg-gray-800 rounded-full h-1 overflow-hidden mt-1">
+                  <div
+                    className="bg-blue-500 h-full transition-all duration-300"
+                    style={{ width: `${Math.round(((doc.progress.current ?? 0) * 100) / doc.progress.total)}%` }}
+                  ></div>
+                </div>
+              ) : null}
+            </div>
+          )}
+          {doc.status === "failed" && doc.analysis_result?.error && (
+            <p className="text-xs text-red-400/80 mt-2 line-clamp-2" title={doc.analysis_result.error}>
+              {doc.analysis_result.error}
+            </p>
+          )}
+          {doc.status === "completed" && doc.analysis_result?.insights && (
+            <p className="text-xs text-gray-500 mt-2 line-clamp-2">
+              {doc.analysis_result.insights.split('\n')[0]}
+            </p>
+          )}
+        </div>
+
+        <div className="flex gap-2 ml-4">
+          {doc.status === "pending" && (
+            <button
+              onClick={() => startAnalysis(doc)}
+              className="bg-blue-600 hover:bg-blue-500 text-[10px] px-3 py-1.5 rounded-lg font-bold transition whitespace-nowrap"
+            >
+              Analyze
+            </button>
+          )}
+          {doc.status === "failed" && (
+            <button
+              onClick={() => startAnalysis(doc)}
+              className="bg-red-600/80 hover:bg-red-500 text-[10px] px-3 py-1.5 rounded-lg font-bold transition whitespace-nowrap"
+            >
+              Retry
+            </button>
+          )}
+          {doc.status === "processing" && (
+            <button
+              onClick={() => cancelAnalysis(doc)}
+              className="border border-gray-700 hover:border-red-500/50 hover:text-red-400 text-[10px] px-3 py-1.5 rounded-lg font-bold transition whitespace-nowrap"
+            >
+              Cancel
+            </button>
+          )}
+          {doc.status === "completed" && (
+            <button
+              onClick={() => {
+                chat.cancelAsk();
+                setActiveDoc(doc);
+                setViewer(null);
+              }}
+              className="bg-green-600 hover:bg-green-500 text-[10px] px-3 py-1.5 rounded-lg font-bold transition whitespace-nowrap"
+            >
+              Open Chat
+            </button>
+          )}
+          <button
+            onClick={() => setDiagnosticsDocId(doc.id)}
+            className="text-gray-600 hover:text-blue-400 transition p-1"
+            title="Diagnostics"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </button>
+          <button
+            onClick={onDelete}
+            className="text-gray-600 hover:text-red-500 transition p-1"
+            title="Move to trash"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import CollectionNavigator from "../../components/CollectionNavigator";
+import BulkActionBar from "../../components/BulkActionBar";
+import TrashView from "../../components/TrashView";
+import DocumentIcon from "../../components/DocumentIcon";
+import BulkOperationModal from "../../components/BulkOperationModal";
+import { collectTags, collectionLabel, TRASH_RETENTION_DAYS } from "../../lib/library";
+import { useDashboard } from "../dashboard/useDashboard";
+import DocumentListItem from "./DocumentListItem";
+import { useLibraryActions } from "./useLibraryActions";
+import type { Document } from "../../types";
+
+export default function LibraryPanel() {
+  const { library, chat, outbox } = useDashboard();
+  const {
+    documents,
+    uploadingDocs,
+    folders,
+    trash,
+    collection,
+    selectCollection,
+    collectionDocuments,
+    selectedIds,
+    setSelectedIds,
+    isBulkWorking,
+    restoreDocuments,
+    purgeDocuments
+  } = library;
+  const actions = useLibraryActions();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isDeletingAll, setIsDeletingAll] = useState(false);
+  // Which documents the "delete all" modal is for; null while it's closed
+  const [deleteAllTarget, setDeleteAllTarget] = useState<"all" | "filtered" | null>(null);
+  // Both lists as they were when the modal opened. The run removes documents
+  // from the library as it goes, so the live lists can't give its total.
+  const [deleteAllLists, setDeleteAllLists] = useState<{ all: Document[]; filtered: Document[] }>({ all: [], filtered: [] });
+
+  const filteredDocuments = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return collectionDocuments.filter(doc =>
+      doc.title.toLowerCase().includes(query) || doc.tags?.some(tag => tag.includes(query))
+    );
+  }, [collectionDocuments, searchQuery]);
+
+  // Files still uploading are listed at the top of All documents
+  const visibleUploads = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return collection.type === "all" ? uploadingDocs.filter(doc => doc.title.toLowerCase().includes(query)) : [];
+  }, [uploadingDocs, collection, searchQuery]);
+
+  const isLibraryFiltered = filteredDocuments.length !== documents.length;
+  const deleteAllTargets = deleteAllTarget === "filtered" ? deleteAllLists.filtered : deleteAllLists.all;
+
+  const allTags = useMemo(() => collectTags(documents).map(t => t.tag), [documents]);
+  const selectedTags = useMemo(
+    () => collectTags(documents.filter(d => selectedIds.includes(d.id))).map(t => t.tag),
+    [documents, selectedIds]
+  );
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  };
+
+  const deleteAll = async (onProgress: (done: number) => void) => {
+    setIsDeletingAll(true);
+    try {
+      return await actions.trashAll(deleteAllTargets, onProgress);
+    } finally {
+      setIsDeletingAll(false);
+    }
+  };
+
+  return (
+    <div className="lg:col-span-2 bg-gray-900/30 p-6 rounded-2xl border border-gray-800/50">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-sm font-bold text-gray-400 uppercase flex items-center gap-2">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+          </svg>
+          Library ({documents.length})
+          {chat.isScopedSearch && (
+            <span className="normal-case font-normal text-gray-500 truncate">· {collectionLabel(collection, folders)}</span>
+          )}
+        </h2>
+        <div className="flex items-center gap-3">
+          {collection.type !== "trash" && (
+            <button
+              onClick={() => {
+                setDeleteAllLists({ all: documents, filtered: filteredDocuments });
+                setDeleteAllTarget(isLibraryFiltered ? "filtered" : "all");
+              }}
+              disabled={documents.length === 0 || isDeletingAll || !outbox.isOnline}
+              className="text-[11px] font-bold text-gray-500 hover:text-red-400 transition disabled:opacity-30"
+              title={outbox.isOnline ? "Move every document (or every one shown) to the trash" : "Needs a connection"}
+            >
+              {isDeletingAll ? "Deleting…" : "Delete all"}
+            </button>
+          )}
+          <input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Filter documents..."
+            className="bg-gray-800 text-xs px-3 py-1.5 rounded-lg border border-gray-700 outline-none focus:border-blue-500 transition"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-4">
+        {/* COLLECTION NAVIGATOR */}
+        <div className="w-44 flex-shrink-0 border-r border-gray-800/50 pr-3 max-h-[560px] overflow-y-auto custom-scrollbar">
+          <CollectionNavigator
+            folders={folders}
+            documents={documents}
+            selected={collection}
+            onSelect={selectCollection}
+            onCreateFolder={actions.handleCreateFolder}
+            onRenameFolder={actions.handleRenameFolder}
+            onDeleteFolder={actions.handleDeleteFolder}
+            trashCount={trash.length}
+          />
+        </div>
+
+        <div className="flex-1 min-w-0">
+          {collection.type === "trash" ? (
+            <TrashView
+              documents={trash}
+              isWorking={isBulkWorking}
+              onRestore={restoreDocuments}
+              onPurge={purgeDocuments}
+            />
+          ) : (
+            <>
+              {selectedIds.length > 0 && (
+                <BulkActionBar
+                  count={selectedIds.length}
+                  folders={folders}
+                  selectedTags={selectedTags}
+                  allTags={allTags}
+                  isWorking={isBulkWorking || isDeletingAll}
+                  onMove={actions.handleBulkMove}
+                  onAddTag={(tag) => actions.handleBulkTag(tag, true)}
+                  onRemoveTag={(tag) => actions.handleBulkTag(tag, false)}
+                  onDelete={actions.handleBulkDelete}
+                  onAsk={() => chat.setSearchScope(prev => ({ ...prev, document_ids: selectedIds }))}
+                  onClear={() => setSelectedIds([])}
+                />
+              )}
+
+              {documents.length === 0 && visibleUploads.length === 0 ? (
+                <div className="flex flex-col items-center justify-center h-64 text-center">
+                  <svg className="w-16 h-16 text-gray-700 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                  <p className="text-gray-500 text-sm">No documents yet</p>
+                  <p className="text-gray-600 text-xs mt-2">Upload a document to get started</p>
+                </div>
+              ) : filteredDocuments.length === 0 && visibleUploads.length === 0 ? (
+                <div className="flex flex-col items-center justify-center h-64 text-center">
+                  {searchQuery ? (
+                    <p className="text-gray-500 text-sm">No documents match &quot;{searchQuery}&quot;</p>
+                  ) : (
+                    <p className="text-gray-500 text-sm">Nothing in {collectionLabel(collection, folders)} yet</p>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-3 max-h-[500px] overflow-y-auto pr-2 custom-scrollbar">
+                  {visibleUploads.map(doc => (
+                    <div key={doc.id} className="p-4 rounded-xl border bg-gray-800/30 border-gray-800/50 flex items-center gap-3 opacity-60">
+                      <DocumentIcon contentType={doc.content_type} />
+                      <div className="min-w-0">
+                        <h3 className="text-sm font-semibold truncate">{doc.title}</h3>
+                        <span className="text-[10px] font-bold uppercase text-blue-400">Uploading…</span>
+                      </div>
+                    </div>
+                  ))}
+                  {filteredDocuments.length > 0 && (
+                    <label className="flex items-center gap-2 text-[10px] text-gray-500 px-1 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={filteredDocuments.every(d => selectedIds.includes(d.id))}
+                        onChange={(e) => {
+                          const visibleIds = filteredDocuments.map(d => d.id);
+                          setSelectedIds(prev => e.target.checked
+                            ? [...prev, ...visibleIds.filter(id => !prev.includes(id))]
+                            : prev.filter(id => !visibleIds.includes(id)));
+                        }}
+                        className="w-3.5 h-3.5 rounded border-gray-600 bg-gray-800"
+                      />
+                      Select all ({filteredDocuments.length})
+                    </label>
+                  )}
+                  {filteredDocuments.map(doc => (
+                    <DocumentListItem
+                      key={doc.id}
+                      doc={doc}
+                      isSelected={selectedIds.includes(doc.id)}
+                      onToggleSelected={() => toggleSelected(doc.id)}
+                      onDelete={() => actions.handleDelete(doc)}
+                    />
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {deleteAllTarget && (
+        <BulkOperationModal
+          title={deleteAllTarget === "filtered" ? "Delete the documents shown?" : "Delete all documents?"}
+          confirmLabel={`Move ${deleteAllTargets.length} to trash`}
+          progressLabel="Moving to trash"
+          failedLabel="could not be moved to the trash"
+          total={deleteAllTargets.length}
+          run={deleteAll}
+          onClose={() => setDeleteAllTarget(null)}
+        >
+          {deleteAllLists.filtered.length !== deleteAllLists.all.length && (
+            <div className="space-y-2 mb-3">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" checked={deleteAllTarget === "filtered"} onChange={() => setDeleteAllTarget("filtered")} />
+                Only the {deleteAllLists.filtered.length} shown in {searchQuery ? `"${searchQuery}" in ` : ""}{collectionLabel(collection, folders)}
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" checked={deleteAllTarget === "all"} onChange={() => setDeleteAllTarget("all")} />
+                All {deleteAllLists.all.length} documents
+              </label>
+            </div>
+          )}
+          <p>
+            {deleteAllTargets.length} document{deleteAllTargets.length === 1 ? "" : "s"} will be moved to the trash. You can
+            restore them from the Trash for {TRASH_RETENTION_DAYS} days.
+          </p>
+        </BulkOperationModal>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+// features/library/useLibraryActions.ts
+import { createFolder, deleteFolder, trashDocument, updateDocument, updateFolder } from '../../lib/sdk';
+import { errorMessage } from '../../lib/errors';
+import { ALL_DOCUMENTS, folderPath, folderWithDescendants, runBulk, TRASH_RETENTION_DAYS } from '../../lib/library';
+import { useRequestSignal } from '../../lib/queryCache';
+import { useDashboard } from '../dashboard/useDashboard';
+import type { Document, Folder } from '../../types';
+
+// ✅ WHAT THE LIBRARY PANEL DOES: TRASH, FOLDERS AND BULK ACTIONS
+export const useLibraryActions = () => {
+  const { library, notifications, outbox } = useDashboard();
+  const {
+    documents,
+    folders,
+    setFolders,
+    collection,
+    selectCollection,
+    selectedIds,
+    setSelectedIds,
+    setIsBulkWorking,
+    fetchDocs,
+    fetchFolders,
+    fetchTrash,
+    removeFromLibrary,
+  } = library;
+  const { notify, setError, confirm, offerUndo } = notifications;
+  const requestSignal = useRequestSignal();
+
+  // ============================================================================
+  // TRASH
+  // ============================================================================
+  // Deleting only moves documents to the trash, so it's offered for undo instead of confirmed
+  const moveToTrash = async (targets: Document[]) => {
+    const label = targets.length === 1 ? `"${targets[0].title}"` : `${targets.length} documents`;
+
+    if (!outbox.isOnline) {
+      try {
+        for (const doc of targets) await outbox.enqueue({ type: 'delete', document_id: doc.id, title: doc.title });
+        removeFromLibrary(targets.map(d => d.id));
+        notify(`Moving ${label} to the trash once you're back online`);
+      } catch (err) {
+        console.error("Outbox error:", err);
+        setError("Could not queue the delete. Try again when you're back online.");
+      }
+      return;
+    }
+
+    const signal = requestSignal();
+    const ids = targets.map(d => d.id);
+    const putBack = removeFromLibrary(ids);
+    setIsBulkWorking(true);
+    const { succeeded, failed } = await runBulk(ids, id => trashDocument(id, { signal }));
+    setIsBulkWorking(false);
+    putBack(failed);
+    // Requests cut short by leaving the page aren't worth an error
+    if (failed.length && !signal.aborted) {
+      setError(targets.length === 1 ? `Could not move ${label} to the trash` : `${failed.length} of ${targets.length} documents could not be moved to the trash`);
+    }
+    if (succeeded.length) {
+      offerUndo({ message: `${succeeded.length === targets.length ? label : `${succeeded.length} documents`} moved to the trash`, ids: succeeded });
+      fetchTrash();
+    }
+  };
+
+  // Moves the documents to the trash, reporting progress; resolves with the titles of those that failed
+  const trashAll = async (targets: Document[], onProgress: (done: number) => void) => {
+    const signal = requestSignal();
+    const ids = targets.map(d => d.id);
+    const putBack = removeFromLibrary(ids);
+    const { succeeded, failed } = await runBulk(ids, id => trashDocument(id, { signal }), onProgress);
+    putBack(failed);
+    if (succeeded.length) {
+      offerUndo({ message: `${succeeded.length} document${succeeded.length > 1 ? "s" : ""} moved to the trash`, ids: succeeded });
+      fetchTrash();
+    }
+    return targets.filter(d => failed.includes(d.id)).map(d => d.title);
+  };
+
+  // ============================================================================
+  // FOLDERS
+  // ============================================================================
+  const handleCreateFolder = async (name: string, parent: number | null) => {
+    try {
+      const folder = await createFolder({ name, parent });
+      setFolders(prev => [...prev, folder]);
+    } catch (err) {
+      setError(errorMessage(err, "Could not create the folder"));
+      throw err;
+    }
+  };
+
+  const handleRenameFolder = async (id: number, name: string) => {
+    try {
+      const folder = await updateFolder(id, { name });
+      setFolders(prev => prev.map(f => (f.id === id ? folder : f)));
+    } catch (err) {
+      setError(errorMessage(err, "Could not rename the folder"));
+      throw err;
+    }
+  };
+
+  const handleDeleteFolder = async (folder: Folder) => {
+    const confirmed = await confirm({
+      title: `Delete folder "${folder.name}"?`,
+      message: "Its subfolders are deleted too. The documents in them are kept and become unfiled.",
+      confirmLabel: "Delete folder",
+      tone: 'danger',
+    });
+    if (!confirmed) return;
+    try {
+      await deleteFolder(folder.id);
+      if (collection.type === 'folder' && folderWithDescendants(folders, folder.id).has(collection.id)) {
+        selectCollection(ALL_DOCUMENTS);
+      }
+      notify(`Folder "${folder.name}" deleted`);
+      fetchFolders();
+      fetchDocs();
+    } catch (err) {
+      console.error("Delete folder error:", err);
+      setError(errorMessage(err, "Could not delete the folder"));
+    }
+  };
+
+  // ============================================================================
+  // BULK ACTIONS
+  // ============================================================================
+  const runBulkAction = async (
+    action: (doc: Document, signal: AbortSignal) => Promise<unknown>,
+    { done, failed }: { done: string; failed: string }
+  ) => {
+    const targets = documents.filter(d => selectedIds.includes(d.id));
+    if (targets.length === 0) return;
+    const signal = requestSignal();
+    setIsBulkWorking(true);
+    const result = await runBulk(targets.map(d => d.id), id => action(targets.find(d => d.id === id)!, signal));
+    setIsBulkWorking(false);
+    if (signal.aborted) return result;
+    // Keep the failures selected so they can be retried
+    setSelectedIds(result.failed);
+    if (result.failed.length) {
+      setError(`${result.failed.length} of ${targets.length} documents ${failed}`);
+    } else {
+      notify(`${targets.length} document${targets.length > 1 ? "s" : ""} ${done}`);
+    }
+    return result;
+  };
+
+  const handleBulkMove = async (folder: number | null) => {
+    await runBulkAction(
+      (doc, signal) => updateDocument(doc.id, { folder }, { signal }),
+      { done: folder === null ? "removed from folders" : `moved to ${folderPath(folders, folder)}`, failed: "could not be moved" }
+    );
+    fetchDocs();
+  };
+
+  const handleBulkTag = async (tag: string, add: boolean) => {
+    await runBulkAction(
+      (doc, signal) => {
+        const tags = doc.tags ?? [];
+        if (add === tags.includes(tag)) return Promise.resolve();
+        return updateDocument(doc.id, { tags: add ? [...tags, tag] : tags.filter(t => t !== tag) }, { signal });
+      },
+      add
+        ? { done: `tagged #${tag}`, failed: "could not be tagged" }
+        : { done: `untagged #${tag}`, failed: "could not be untagged" }
+    );
+    fetchDocs();
+  };
+
+  const handleBulkDelete = async () => {
+    const targets = documents.filter(d => selectedIds.includes(d.id));
+    if (targets.length === 0) return;
+    const confirmed = await confirm({
+      title: `Move ${targets.length} document${targets.length > 1 ? "s" : ""} to the trash?`,
+      message: `You can restore them from the Trash for ${TRASH_RETENTION_DAYS} days.`,
+      confirmLabel: "Move to trash",
+      tone: 'danger',
+    });
+    if (confirmed) await moveToTrash(targets);
+  };
+
+  return {
+    handleDelete: (doc: Document) => moveToTrash([doc]),
+    trashAll,
+    handleCreateFolder,
+    handleRenameFolder,
+    handleDeleteFolder,
+    handleBulkMove,
+    handleBulkTag,
+    handleBulkDelete,
+  };
+};
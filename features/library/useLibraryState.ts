@@ -0,0 +1,350 @@
+// features/library/useLibraryState.ts
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  analyzeDocument,
+  cancelAnalysis,
+  deleteDocument,
+  listDocuments,
+  listFolders,
+  listTrash,
+  restoreDocument,
+} from '../../lib/sdk';
+import { errorMessage, toApiError } from '../../lib/errors';
+import { clearSession } from '../../lib/session';
+import { loginUrl } from '../../lib/routes';
+import { withOfflineCache } from '../../lib/offline';
+import { useDocumentEvents, type DocumentStatusEvent } from '../../lib/documentEvents';
+import { getQueryData, invalidateQuery, optimisticUpdate, setQueryData, useQuery, useRequestSignal } from '../../lib/queryCache';
+import { ALL_DOCUMENTS, filterByCollection, reinsertDocuments, runBulk, type Collection } from '../../lib/library';
+import { isPdf, resolveContentType } from '../../lib/fileTypes';
+import type { NotificationsState } from '../notifications/useNotifications';
+import type { AnalysisOptions, Document, Folder, Source } from '../../types';
+
+const POLLING_INTERVAL = 4000;
+
+export interface ViewerState {
+  documentId: number;
+  title: string;
+  citations: Source[];
+  index: number;
+}
+
+// Fallback for when the status push channel isn't connected
+const useDocumentPolling = (fetchDocs: () => Promise<void>, documents: Document[], enabled: boolean) => {
+  useEffect(() => {
+    if (!enabled) return;
+    const hasProcessingDocs = documents.some(d => d.status === 'processing' || d.status === 'pending');
+    if (!hasProcessingDocs) return;
+    const interval = setInterval(fetchDocs, POLLING_INTERVAL);
+    return () => clearInterval(interval);
+  }, [documents, fetchDocs, enabled]);
+};
+
+const NO_DOCUMENTS: Document[] = [];
+const NO_FOLDERS: Folder[] = [];
+
+const setDocuments = (updater: (prev: Document[]) => Document[]) =>
+  setQueryData<Document[]>('documents', prev => updater(prev ?? NO_DOCUMENTS));
+
+// ✅ THE DOCUMENTS, FOLDERS AND TRASH, AND WHICH DOCUMENT IS OPEN
+// Served from the query cache and kept in sync with the server over the
+// status channel (or polling). Delete, analyze and upload show up before the
+// server confirms them and are rolled back if it refuses.
+export const useLibraryState = (isAuthenticated: boolean, { notify, setError, confirm }: NotificationsState) => {
+  const router = useRouter();
+  const requestSignal = useRequestSignal();
+  // Set while the library shown is the offline copy saved at this time
+  const [libraryCachedAt, setLibraryCachedAt] = useState<number | null>(null);
+  // The document whose chat is open
+  const [activeDocId, setActiveDocId] = useState<number | null>(null);
+  const [viewer, setViewer] = useState<ViewerState | null>(null);
+  const [diagnosticsDocId, setDiagnosticsDocId] = useState<number | null>(null);
+  const [collection, setCollection] = useState<Collection>(ALL_DOCUMENTS);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isBulkWorking, setIsBulkWorking] = useState(false);
+  // Files still uploading, shown in the library until the server has them
+  const [uploadingDocs, setUploadingDocs] = useState<Document[]>([]);
+
+  // A document asked for before the library loaded, opened by the next fetch
+  const requestedDocIdRef = useRef<number | null>(null);
+  // Documents deleted while offline stay hidden until the delete is sent
+  const queuedDeleteIdsRef = useRef<number[]>([]);
+  // Placeholders get negative ids so they can't clash with the server's
+  const nextUploadIdRef = useRef(-1);
+
+  // ============================================================================
+  // FETCH
+  // ============================================================================
+  const loadDocuments = useCallback(async (signal: AbortSignal) => {
+    try {
+      const { value, cachedAt } = await withOfflineCache('documents', () => listDocuments({ signal }));
+      const data = value.filter(d => !queuedDeleteIdsRef.current.includes(d.id));
+      setLibraryCachedAt(cachedAt);
+      const requested = data.find(d => d.id === requestedDocIdRef.current && d.status === 'completed');
+      requestedDocIdRef.current = null;
+      if (requested) setActiveDocId(requested.id);
+      return data;
+    } catch (err) {
+      if (!signal.aborted) {
+        console.error("Fetch error:", err);
+        if (toApiError(err).isUnauthorized) {
+          setError("Session expired. Please login again.");
+          clearSession();
+          const { pathname, search } = window.location;
+          router.push(loginUrl(`${pathname}${search}`));
+        }
+      }
+      throw err;
+    }
+  }, [router, setError]);
+
+  const loadFolders = useCallback(async (signal: AbortSignal) => {
+    try {
+      return (await withOfflineCache('folders', () => listFolders({ signal }))).value;
+    } catch (err) {
+      // The library still works without folders
+      if (!signal.aborted) console.error("Folder fetch error:", err);
+      throw err;
+    }
+  }, []);
+
+  // Expired documents are purged by the server, never from here
+  const loadTrash = useCallback(async (signal: AbortSignal) => {
+    try {
+      return (await withOfflineCache('trash', () => listTrash({ signal }))).value;
+    } catch (err) {
+      if (!signal.aborted) console.error("Trash fetch error:", err);
+      throw err;
+    }
+  }, []);
+
+  const documentsQuery = useQuery('documents', loadDocuments, { enabled: isAuthenticated });
+  const foldersQuery = useQuery('folders', loadFolders, { enabled: isAuthenticated });
+  const trashQuery = useQuery('trash', loadTrash, { enabled: isAuthenticated });
+
+  const documents = documentsQuery.data ?? NO_DOCUMENTS;
+  const folders = foldersQuery.data ?? NO_FOLDERS;
+  const trash = trashQuery.data ?? NO_DOCUMENTS;
+  // Until the first load has finished, one way or the other
+  const isLoadingDocs = documentsQuery.data === undefined && documentsQuery.error === undefined;
+  const fetchDocs = documentsQuery.refetch;
+  const fetchFolders = foldersQuery.refetch;
+  const fetchTrash = trashQuery.refetch;
+
+  const activeDoc = useMemo(() => documents.find(d => d.id === activeDocId) ?? null, [documents, activeDocId]);
+  const setActiveDoc = (doc: Document | null) => setActiveDocId(doc?.id ?? null);
+
+  // ============================================================================
+  // LIVE STATUS UPDATES
+  // ============================================================================
+  const handleStatusEvent = useCallback((event: DocumentStatusEvent) => {
+    const patchDoc = (doc: Document): Document => ({
+      ...doc,
+      status: event.status,
+      progress: event.status === 'processing' ? event.progress : undefined,
+      analysis_result: event.analysis_result ?? doc.analysis_result,
+    });
+
+    const known = getQueryData<Document[]>('documents')?.some(d => d.id === event.document_id);
+    setDocuments(prev => prev.map(d => (d.id === event.document_id ? patchDoc(d) : d)));
+
+    // New documents and finished analyses need the full record
+    const finished = (event.status === 'completed' || event.status === 'failed') && !event.analysis_result;
+    if (!known || finished) fetchDocs();
+  }, [fetchDocs]);
+
+  const channelState = useDocumentEvents(isAuthenticated, handleStatusEvent);
+
+  // Resync after (re)connecting in case events were missed while disconnected
+  useEffect(() => {
+    if (channelState === 'open') fetchDocs();
+  }, [channelState, fetchDocs]);
+
+  useDocumentPolling(fetchDocs, documents, channelState !== 'open');
+
+  // Opens a document's chat, waiting for the library to load if it hasn't yet
+  const requestDocument = useCallback((id: number) => {
+    const doc = getQueryData<Document[]>('documents')?.find(d => d.id === id);
+    if (!doc) {
+      requestedDocIdRef.current = id;
+    } else if (doc.status === 'completed') {
+      setActiveDocId(doc.id);
+    }
+  }, []);
+
+  // ============================================================================
+  // ANALYSIS
+  // ============================================================================
+  // Also retries failed documents and re-runs completed ones with new options
+  const startAnalysis = async (doc: Document, options?: AnalysisOptions) => {
+    const previous = optimisticUpdate<Document[]>('documents', prev =>
+      prev.map(d => (d.id === doc.id ? { ...d, status: 'processing', progress: undefined } : d))
+    );
+    try {
+      await analyzeDocument(doc.id, options, { signal: requestSignal() });
+      // The status channel (or polling) reports the progress from here
+      notify(doc.status === 'pending' ? "Analysis started!" : "Re-analysis started!");
+    } catch (err) {
+      const before = previous?.find(d => d.id === doc.id);
+      if (before) setDocuments(prev => prev.map(d => (d.id === doc.id ? before : d)));
+      if (toApiError(err).isAborted) return;
+      console.error("Analysis error:", err);
+      setError(errorMessage(err, "Analysis failed"));
+    }
+  };
+
+  const handleCancelAnalysis = async (doc: Document) => {
+    try {
+      await cancelAnalysis(doc.id, { signal: requestSignal() });
+      notify("Analysis cancelled");
+      fetchDocs();
+    } catch (err) {
+      if (toApiError(err).isAborted) return;
+      console.error("Cancel error:", err);
+      setError(errorMessage(err, "Could not cancel the analysis"));
+    }
+  };
+
+  // ============================================================================
+  // UPLOADS
+  // ============================================================================
+  // Shows a file in the library while it uploads. Settle the placeholder with
+  // the server's document (or without one to reload the library), or roll it back.
+  const showUpload = (file: File) => {
+    const placeholder: Document = {
+      id: nextUploadIdRef.current--,
+      title: file.name,
+      status: 'pending',
+      created_at: new Date().toISOString(),
+      file_size: file.size,
+      content_type: resolveContentType(file) ?? file.type,
+    };
+    setUploadingDocs(prev => [placeholder, ...prev]);
+    const rollback = () => setUploadingDocs(prev => prev.filter(d => d.id !== placeholder.id));
+
+    const settle = async (doc?: Document) => {
+      if (doc) setDocuments(prev => (prev.some(d => d.id === doc.id) ? prev : [doc, ...prev]));
+      else await fetchDocs();
+      rollback();
+    };
+    return { settle, rollback };
+  };
+
+  // ============================================================================
+  // TRASH
+  // ============================================================================
+  // Drops documents on their way to the trash, closing whatever showed them.
+  // The returned function puts back the ones the server refused.
+  const removeFromLibrary = (ids: number[]) => {
+    const previous = optimisticUpdate<Document[]>('documents', prev => prev.filter(d => !ids.includes(d.id))) ?? NO_DOCUMENTS;
+    setSelectedIds(prev => prev.filter(id => !ids.includes(id)));
+    setViewer(prev => (prev && ids.includes(prev.documentId) ? null : prev));
+    setActiveDocId(prev => (prev !== null && ids.includes(prev) ? null : prev));
+    return (failed: number[]) => {
+      if (failed.length) setDocuments(prev => reinsertDocuments(prev, previous, failed));
+    };
+  };
+
+  const restoreDocuments = async (ids: number[]) => {
+    const signal = requestSignal();
+    setIsBulkWorking(true);
+    const { succeeded, failed } = await runBulk(ids, id => restoreDocument(id, { signal }));
+    setIsBulkWorking(false);
+    setQueryData<Document[]>('trash', prev => (prev ?? NO_DOCUMENTS).filter(d => !succeeded.includes(d.id)));
+    if (signal.aborted) return;
+    if (failed.length) {
+      setError(`${failed.length} of ${ids.length} documents could not be restored`);
+    } else {
+      notify(`${ids.length} document${ids.length > 1 ? "s" : ""} restored`);
+    }
+    if (succeeded.length) invalidateQuery('documents');
+  };
+
+  const purgeDocuments = async (targets: Document[]) => {
+    const confirmed = await confirm({
+      title: targets.length === 1 ? `Delete "${targets[0].title}" forever?` : `Delete ${targets.length} documents forever?`,
+      message: "They will be removed from the trash along with their analysis. This cannot be undone.",
+      confirmLabel: "Delete forever",
+      tone: 'danger',
+    });
+    if (!confirmed) return;
+
+    const signal = requestSignal();
+    setIsBulkWorking(true);
+    const { succeeded, failed } = await runBulk(targets.map(d => d.id), id => deleteDocument(id, { signal }));
+    setIsBulkWorking(false);
+    setQueryData<Document[]>('trash', prev => (prev ?? NO_DOCUMENTS).filter(d => !succeeded.includes(d.id)));
+    if (signal.aborted) return;
+    if (failed.length) {
+      setError(`${failed.length} of ${targets.length} documents could not be deleted`);
+    } else {
+      notify(`${targets.length} document${targets.length > 1 ? "s" : ""} deleted forever`);
+    }
+  };
+
+  // ============================================================================
+  // COLLECTIONS & VIEWER
+  // ============================================================================
+  const selectCollection = (next: Collection) => {
+    setCollection(next);
+    setSelectedIds([]);
+  };
+
+  const collectionDocuments = useMemo(
+    () => filterByCollection(documents, collection, folders),
+    [documents, collection, folders]
+  );
+
+  const openViewer = (documentId: number, sources: Source[] = [], source?: Source) => {
+    const doc = documents.find(d => d.id === documentId);
+    const citations = sources.filter(s => s.document_id === undefined || s.document_id === documentId);
+    setViewer({
+      documentId,
+      title: doc?.title || source?.document_title || "Document",
+      citations,
+      index: source ? Math.max(citations.indexOf(source), 0) : 0,
+    });
+  };
+
+  // Only PDFs have a page-based viewer; unknown documents are assumed to be PDFs
+  const canPreview = (documentId: number) => isPdf(documents.find(d => d.id === documentId)?.content_type);
+
+  return {
+    documents,
+    uploadingDocs,
+    isLoadingDocs,
+    libraryCachedAt,
+    folders,
+    setFolders: (updater: (prev: Folder[]) => Folder[]) => setQueryData<Folder[]>('folders', prev => updater(prev ?? NO_FOLDERS)),
+    trash,
+    fetchDocs,
+    fetchFolders,
+    fetchTrash,
+    queuedDeleteIdsRef,
+    requestDocument,
+    activeDoc,
+    setActiveDoc,
+    viewer,
+    setViewer,
+    openViewer,
+    canPreview,
+    diagnosticsDoc: documents.find(d => d.id === diagnosticsDocId),
+    setDiagnosticsDocId,
+    collection,
+    selectCollection,
+    collectionDocuments,
+    selectedIds,
+    setSelectedIds,
+    isBulkWorking,
+    setIsBulkWorking,
+    startAnalysis,
+    cancelAnalysis: handleCancelAnalysis,
+    showUpload,
+    removeFromLibrary,
+    restoreDocuments,
+    purgeDocuments,
+  };
+};
+
+export type LibraryState = ReturnType<typeof useLibraryState>;
@@ -0,0 +1,49 @@
+"use client";
+
+import UndoToast from "../../components/UndoToast";
+import ConfirmDialog from "../../components/ConfirmDialog";
+import { useDashboard } from "../dashboard/useDashboard";
+
+// Toasts, the undo offer and the confirmation modal, for every dashboard page
+export default function Notifications() {
+  const { notifications, library } = useDashboard();
+  const { successMessage, error, setError, undo, dismissUndo, confirmRequest, settleConfirm } = notifications;
+
+  return (
+    <>
+      {successMessage && (
+        <div className="fixed top-4 right-4 z-50 bg-green-500/90 backdrop-blur-sm text-white px-6 py-3 rounded-xl shadow-2xl animate-in slide-in-from-top">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7" />
+            </svg>
+            {successMessage}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="fixed top-4 right-4 z-50 bg-red-500/90 backdrop-blur-sm text-white px-6 py-3 rounded-xl shadow-2xl animate-in slide-in-from-top">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+            {error}
+            <button onClick={() => setError(null)} className="ml-2 hover:text-gray-200">×</button>
+          </div>
+        </div>
+      )}
+
+      {undo && (
+        <UndoToast
+          key={undo.ids.join(",")}
+          message={undo.message}
+          onUndo={() => library.restoreDocuments(undo.ids)}
+          onDismiss={dismissUndo}
+        />
+      )}
+
+      <ConfirmDialog request={confirmRequest} onSettle={settleConfirm} />
+    </>
+  );
+}
@@ -0,0 +1,43 @@
+// features/notifications/useNotifications.ts
+import { useCallback, useState } from 'react';
+import { useConfirm } from '../../lib/useConfirm';
+
+const SUCCESS_DURATION = 3000;
+
+export interface UndoOffer {
+  message: string;
+  // Documents to restore from the trash
+  ids: number[];
+}
+
+// ✅ TOASTS, THE UNDO OFFER AND THE CONFIRMATION MODAL SHARED BY THE DASHBOARD
+export const useNotifications = () => {
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Offered after documents are moved to the trash
+  const [undo, setUndo] = useState<UndoOffer | null>(null);
+  const { request: confirmRequest, confirm, settle: settleConfirm } = useConfirm();
+
+  // Shows a success toast for a few seconds
+  const notify = useCallback((message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), SUCCESS_DURATION);
+  }, []);
+
+  const dismissUndo = useCallback(() => setUndo(null), []);
+
+  return {
+    successMessage,
+    error,
+    setError,
+    notify,
+    undo,
+    offerUndo: setUndo,
+    dismissUndo,
+    confirmRequest,
+    confirm,
+    settleConfirm,
+  };
+};
+
+export type NotificationsState = ReturnType<typeof useNotifications>;
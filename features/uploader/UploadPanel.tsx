@@ -0,0 +1,163 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { ACCEPTED_FILE_TYPES, SUPPORTED_FORMAT_LABELS } from "../../lib/fileTypes";
+import { formatFileSize } from "../../lib/format";
+import { collectDroppedFiles } from "../../lib/uploadQueue";
+import { useDashboard } from "../dashboard/useDashboard";
+import type { UploadItem } from "../../types";
+
+const UPLOAD_STATUS_LABELS: Record<UploadItem["status"], string> = {
+  queued: "Queued",
+  uploading: "Uploading",
+  paused: "Paused",
+  completed: "Uploaded",
+  failed: "Failed",
+  cancelled: "Cancelled",
+  rejected: "Rejected"
+};
+
+export default function UploadPanel() {
+  const { uploads: uploadQueue, outbox, notifications } = useDashboard();
+  const { notify, setError } = notifications;
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // Offline, the files themselves wait in the outbox
+  const queueUploads = async (files: { file: File; path: string }[]) => {
+    try {
+      for (const { file, path } of files) await outbox.enqueue({ type: "upload", file, path });
+      notify(`${files.length} file${files.length === 1 ? "" : "s"} queued for upload`);
+    } catch (err) {
+      // e.g. the browser's storage quota is too small for the files
+      console.error("Outbox error:", err);
+      setError("Could not queue the files. Upload them again when you're back online.");
+    }
+  };
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length === 0) return;
+
+    setError(null);
+    const entries = files.map(file => ({ file, path: file.webkitRelativePath || file.name }));
+    if (outbox.isOnline) uploadQueue.addFiles(entries);
+    else queueUploads(entries);
+    e.target.value = '';
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    try {
+      const files = await collectDroppedFiles(e.dataTransfer);
+      if (files.length === 0) return;
+      if (outbox.isOnline) uploadQueue.addFiles(files);
+      else queueUploads(files);
+    } catch (err) {
+      console.error("Drop error:", err);
+      setError("Could not read the dropped files");
+    }
+  };
+
+  return (
+    <div className="lg:col-span-1 bg-gray-900/30 p-6 rounded-2xl border border-gray-800/50">
+      <h2 className="text-sm font-bold text-gray-400 mb-4 uppercase flex items-center gap-2">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+        </svg>
+        Upload
+      </h2>
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDraggingFiles(true); }}
+        onDragLeave={() => setIsDraggingFiles(false)}
+        onDrop={handleDrop}
+        className={`relative border-2 border-dashed rounded-xl p-8 text-center hover:border-blue-500 transition cursor-pointer group ${isDraggingFiles ? "border-blue-500 bg-blue-500/5" : "border-gray-700"}`}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_FILE_TYPES}
+          multiple
+          onChange={handleUpload}
+          className="absolute inset-0 opacity-0 cursor-pointer"
+        />
+        <svg className="w-12 h-12 mx-auto mb-3 text-gray-600 group-hover:text-blue-500 transition" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+        </svg>
+        <p className="text-sm text-gray-500 group-hover:text-gray-400">Drop documents or folders, or Click to Browse</p>
+        <p className="text-[10px] text-gray-600 mt-1">{SUPPORTED_FORMAT_LABELS.join(" · ")}</p>
+        <p className="text-xs text-gray-600 mt-2">Max 500MB per file · large files resume after interruptions</p>
+      </div>
+      <input
+        ref={(el) => {
+          folderInputRef.current = el;
+          el?.setAttribute("webkitdirectory", "");
+        }}
+        type="file"
+        multiple
+        onChange={handleUpload}
+        className="hidden"
+      />
+      <button
+        onClick={() => folderInputRef.current?.click()}
+        className="w-full mt-3 text-xs text-gray-500 hover:text-blue-400 transition"
+      >
+        Or select a whole folder
+      </button>
+
+      {/* UPLOAD QUEUE */}
+      {uploadQueue.items.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] font-bold text-gray-500 uppercase">
+              Queue ({uploadQueue.items.filter(i => i.status === "completed").length}/{uploadQueue.items.filter(i => i.status !== "rejected" && i.status !== "cancelled").length} done)
+            </p>
+            <button onClick={uploadQueue.clearFinished} className="text-[10px] text-gray-500 hover:text-gray-300 transition">
+              Clear finished
+            </button>
+          </div>
+          <div className="space-y-2 max-h-[300px] overflow-y-auto pr-1 custom-scrollbar">
+            {uploadQueue.items.map(item => (
+              <div key={item.id} className="p-3 rounded-lg bg-gray-800/30 border border-gray-800/50">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-xs font-semibold truncate" title={item.path}>{item.path}</p>
+                    <p className={`text-[10px] ${item.status === "failed" || item.status === "rejected" ? "text-red-400" : "text-gray-500"}`}>
+                      {UPLOAD_STATUS_LABELS[item.status]}
+                      {item.status === "uploading" && ` ${item.percent}%`}
+                      {item.error ? ` · ${item.error}` : ` · ${formatFileSize(item.file.size)}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0 text-[10px] font-bold">
+                    {item.status === "uploading" && (
+                      <button onClick={() => uploadQueue.pause(item.id)} className="text-gray-400 hover:text-white transition">Pause</button>
+                    )}
+                    {item.status === "paused" && (
+                      <button onClick={() => uploadQueue.resume(item.id)} className="text-blue-400 hover:text-blue-300 transition">Resume</button>
+                    )}
+                    {item.status === "failed" && (
+                      <button onClick={() => uploadQueue.retry(item.id)} className="text-blue-400 hover:text-blue-300 transition">Retry</button>
+                    )}
+                    {(item.status === "queued" || item.status === "uploading" || item.status === "paused") && (
+                      <button onClick={() => uploadQueue.cancel(item.id)} className="text-gray-500 hover:text-red-500 transition ml-1">Cancel</button>
+                    )}
+                  </div>
+                </div>
+                {(item.status === "uploading" || item.status === "paused") && (
+                  <div className="w-full bg-gray-800 rounded-full h-1.5 overflow-hidden mt-2">
+                    <div
+                      className={`h-full transition-all duration-300 ${item.status === "paused" ? "bg-gray-500" : "bg-blue-500"}`}
+                      style={{ width: `${item.percent}%` }}
+                    ></div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+// features/uploader/useUploader.ts
+import { useCallback } from 'react';
+import { uploadDocument } from '../../lib/sdk';
+import { uploadInChunks } from '../../lib/chunkedUpload';
+import { SUPPORTED_FILE_TYPES, SUPPORTED_FORMAT_LABELS, resolveContentType } from '../../lib/fileTypes';
+import { useUploadQueue, type UploadOptions } from '../../lib/uploadQueue';
+import type { LibraryState } from '../library/useLibraryState';
+import type { Document, UploadItem } from '../../types';
+
+const MAX_FILE_SIZE = 500 * 1024 * 1024;
+// Larger files go through the resumable chunked upload
+const DIRECT_UPLOAD_LIMIT = 10 * 1024 * 1024;
+const MAX_CONCURRENT_UPLOADS = 3;
+
+const validateUploadFile = async (file: File): Promise<string | null> => {
+  const contentType = resolveContentType(file);
+  if (!contentType) return `Unsupported file type. Allowed: ${SUPPORTED_FORMAT_LABELS.join(", ")}`;
+  if (file.size > MAX_FILE_SIZE) return 'File size exceeds 500MB limit';
+  return SUPPORTED_FILE_TYPES[contentType].validate(file);
+};
+
+// Resolves with the new document when the endpoint returns it
+const uploadFile = async (file: File, { signal, onProgress }: UploadOptions): Promise<Document | undefined> => {
+  if (file.size > DIRECT_UPLOAD_LIMIT) {
+    await uploadInChunks(file, { signal, onProgress });
+    return undefined;
+  }
+
+  return uploadDocument(file, {
+    signal,
+    onProgress,
+    contentType: resolveContentType(file) ?? undefined,
+  });
+};
+
+// ✅ THE UPLOAD QUEUE, ADDING FILES TO THE LIBRARY AS THEY UPLOAD
+// Each file is shown in the library from the start and removed again if its
+// upload fails or is paused or cancelled.
+export const useUploader = ({ showUpload }: Pick<LibraryState, 'showUpload'>, notify: (message: string) => void) => {
+  const upload = useCallback(async (file: File, options: UploadOptions) => {
+    const placeholder = showUpload(file);
+    try {
+      placeholder.settle(await uploadFile(file, options));
+    } catch (err) {
+      placeholder.rollback();
+      throw err;
+    }
+  }, [showUpload]);
+
+  const handleUploaded = useCallback((item: UploadItem) => {
+    notify(`${item.file.name} uploaded successfully!`);
+  }, [notify]);
+
+  return useUploadQueue({
+    upload,
+    validate: validateUploadFile,
+    concurrency: MAX_CONCURRENT_UPLOADS,
+    onUploaded: handleUploaded,
+  });
+};
+
+export type UploaderState = ReturnType<typeof useUploader>;
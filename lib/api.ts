@@ -1,8 +1,18 @@
 // lib/api.ts
-import axios from 'axios';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+import { API_URL } from './config';
+import { isAuthRoute, loginUrl } from './routes';
+import {
+  clearSession,
+  getAccessToken,
+  getRefreshToken,
+  onSessionEnd,
+  refreshAccessToken,
+  scheduleProactiveRefresh,
+  waitForRefresh,
+} from './session';
 
-// Read from environment variable
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api';
+export { API_URL };
 
 // Create axios instance
 const api = axios.create({
@@ -12,10 +22,21 @@ const api = axios.create({
   },
 });
 
+// Any tab logging out (or failing to refresh) sends every tab to login
+if (typeof window !== 'undefined') {
+  onSessionEnd(() => {
+    const { pathname, search } = window.location;
+    if (!isAuthRoute(pathname)) window.location.href = loginUrl(`${pathname}${search}`);
+  });
+  scheduleProactiveRefresh();
+}
+
 // ✅ AUTO-ATTACH JWT TOKEN TO EVERY REQUEST
 api.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem('access_token');
+  async (config) => {
+    // Wait out an in-flight refresh instead of sending a token that's about to be replaced
+    await waitForRefresh();
+    const token = getAccessToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -25,40 +46,32 @@ api.interceptors.request.use(
 );
 
 // ✅ AUTO-REFRESH TOKEN ON 401 ERRORS
+// Concurrent 401s share one refresh and are replayed once it lands.
 api.interceptors.response.use(
   (response) => response,
   async (error) => {
-    const originalRequest = error.config;
+    const originalRequest = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined;
 
     // If 401 and we haven't tried refreshing yet
-    if (error.response?.status === 401 && !originalRequest._retry) {
+    if (error.response?.status === 401 && originalRequest && !originalRequest._retry) {
       originalRequest._retry = true;
 
-      const refreshToken = localStorage.getItem('refresh_token');
-      
-      if (refreshToken) {
-        try {
-          // Try to refresh the token
-          const response = await axios.post(`${API_URL}/token/refresh/`, {
-            refresh: refreshToken,
-          });
+      if (!getRefreshToken()) {
+        // No refresh token - end the session (redirects to login)
+        clearSession();
+        return Promise.reject(error);
+      }
 
-          // Save new access token
-          localStorage.setItem('access_token', response.data.access);
+      try {
+        const access = await refreshAccessToken();
 
-          // Retry original request with new token
-          originalRequest.headers.Authorization = `Bearer ${response.data.access}`;
-          return axios(originalRequest);
-        } catch (refreshError) {
-          // Refresh failed - clear tokens and redirect to login
-          localStorage.clear();
-          window.location.href = '/login';
-          return Promise.reject(refreshError);
-        }
-      } else {
-        // No refresh token - redirect to login
-        localStorage.clear();
-        window.location.href = '/login';
+        // Retry original request with new token
+        originalRequest.headers.Authorization = `Bearer ${access}`;
+        return api(originalRequest);
+      } catch (refreshError) {
+        // Refresh failed - clear tokens in every tab and redirect to login
+        clearSession();
+        return Promise.reject(refreshError);
       }
     }
 
@@ -66,4 +79,4 @@ api.interceptors.response.use(
   }
 );
 
-export default api;
\ No newline at end of file
+export default api;
@@ -0,0 +1,44 @@
+// lib/auth.ts
+// Login/logout for both auth modes (see AUTH_MODE in lib/config.ts).
+import axios from 'axios';
+import { IS_COOKIE_MODE } from './config';
+import { toApiError } from './errors';
+import { obtainToken, revokeToken } from './sdk';
+import { clearSession, getRefreshToken, saveTokens } from './session';
+import type { TokenRequest } from '../types';
+
+// Same-origin route handlers that own the httpOnly session cookies
+const AUTH_ROUTES = {
+  login: '/api/auth/login',
+  logout: '/api/auth/logout',
+} as const;
+
+// ✅ LOGIN - tokens go to localStorage, or into httpOnly cookies in cookie mode
+export const login = async (credentials: TokenRequest): Promise<void> => {
+  if (IS_COOKIE_MODE) {
+    try {
+      await axios.post(AUTH_ROUTES.login, credentials);
+    } catch (err) {
+      throw toApiError(err);
+    }
+    return;
+  }
+
+  saveTokens(await obtainToken(credentials));
+};
+
+// ✅ LOGOUT - revoke the server session, then clear this app's local state
+export const logout = async (): Promise<void> => {
+  try {
+    if (IS_COOKIE_MODE) {
+      await axios.post(AUTH_ROUTES.logout);
+    } else {
+      const refresh = getRefreshToken();
+      if (refresh) await revokeToken(refresh);
+    }
+  } catch (err) {
+    // Still log out locally; the server session expires on its own
+    console.error("Logout error:", err);
+  }
+  clearSession();
+};
@@ -0,0 +1,85 @@
+// lib/authCookies.ts
+// Server-side helpers for cookie session mode, shared by the app/api route handlers.
+import type { NextResponse } from 'next/server';
+import { BACKEND_URL, SESSION_COOKIE } from './config';
+import { parseAccessToken } from './schemas';
+import type { AccessToken, TokenPair } from '../types';
+
+export const ACCESS_COOKIE = 'smartdoc_access';
+export const REFRESH_COOKIE = 'smartdoc_refresh';
+
+// Used when a token's `exp` can't be read
+const DEFAULT_ACCESS_MAX_AGE = 5 * 60;
+const DEFAULT_REFRESH_MAX_AGE = 24 * 60 * 60;
+// How long a rotated token is handed to requests that raced the refresh
+const REFRESH_REUSE_WINDOW = 10 * 1000;
+
+const cookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+};
+
+// Seconds until a JWT expires, or the fallback when it can't be decoded
+const maxAgeOf = (token: string, fallback: number) => {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+    return typeof payload.exp === 'number' ? Math.max(payload.exp - Math.floor(Date.now() / 1000), 0) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const setSessionCookies = (response: NextResponse, tokens: TokenPair | AccessToken) => {
+  response.cookies.set(ACCESS_COOKIE, tokens.access, {
+    ...cookieOptions,
+    maxAge: maxAgeOf(tokens.access, DEFAULT_ACCESS_MAX_AGE),
+  });
+  if (tokens.refresh) {
+    const maxAge = maxAgeOf(tokens.refresh, DEFAULT_REFRESH_MAX_AGE);
+    response.cookies.set(REFRESH_COOKIE, tokens.refresh, { ...cookieOptions, maxAge });
+    response.cookies.set(SESSION_COOKIE, '1', { ...cookieOptions, httpOnly: false, maxAge });
+  }
+};
+
+export const clearSessionCookies = (response: NextResponse) => {
+  [ACCESS_COOKIE, REFRESH_COOKIE, SESSION_COOKIE].forEach(name => {
+    response.cookies.set(name, '', { ...cookieOptions, httpOnly: name !== SESSION_COOKIE, maxAge: 0 });
+  });
+};
+
+// ============================================================================
+// SINGLE-FLIGHT REFRESH
+// ============================================================================
+
+// Concurrent proxied requests carry the same refresh cookie; with rotation
+// enabled only the first refresh succeeds, so they all share its result.
+const refreshes = new Map<string, Promise<AccessToken | null>>();
+
+const performRefresh = async (refresh: string): Promise<AccessToken | null> => {
+  try {
+    const res = await fetch(`${BACKEND_URL}/token/refresh/`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refresh }),
+    });
+    if (!res.ok) return null;
+    return parseAccessToken(await res.json());
+  } catch (err) {
+    console.error("Session refresh error:", err);
+    return null;
+  }
+};
+
+export const refreshSession = (refresh: string): Promise<AccessToken | null> => {
+  let pending = refreshes.get(refresh);
+  if (!pending) {
+    pending = performRefresh(refresh);
+    refreshes.set(refresh, pending);
+    pending.finally(() => {
+      setTimeout(() => refreshes.delete(refresh), REFRESH_REUSE_WINDOW);
+    });
+  }
+  return pending;
+};
@@ -0,0 +1,155 @@
+// lib/chatExport.ts
+// Conversation exports for handing a Q&A session over: Markdown and JSON
+// downloads (the printable PDF is rendered by components/ChatExportMenu.tsx),
+// and re-import of the JSON format.
+import { ApiError } from './errors';
+import { formatDateTime } from './format';
+import { arrayOf, number, optional, parseMessage, record, string } from './schemas';
+import { describeScope, isScopeEmpty } from './searchScope';
+import { serializeMessages, type ThreadScope } from './threads';
+import type { Message, Source } from '../types';
+
+export const CHAT_EXPORT_FORMAT = 'smartdoc-conversation';
+// Bump when the JSON shape changes; older files must stay importable
+export const CHAT_EXPORT_VERSION = 1;
+
+export type ChatExportType = 'markdown' | 'pdf' | 'json';
+
+export interface ChatExport {
+  format: typeof CHAT_EXPORT_FORMAT;
+  version: number;
+  title: string;
+  scope: ThreadScope;
+  // Set for document chats
+  document?: { id: number; title: string };
+  exported_at: string;
+  messages: Message[];
+}
+
+export const buildChatExport = ({ title, scope, document, messages }: {
+  title: string;
+  scope: ThreadScope;
+  document?: { id: number; title: string };
+  messages: Message[];
+}): ChatExport => ({
+  format: CHAT_EXPORT_FORMAT,
+  version: CHAT_EXPORT_VERSION,
+  title,
+  scope,
+  document,
+  exported_at: new Date().toISOString(),
+  // A half-streamed answer isn't worth handing over
+  messages: serializeMessages(messages.filter(m => !m.isStreaming)),
+});
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+export const ROLE_LABELS: Record<Message['role'], string> = {
+  user: 'You',
+  ai: 'SmartDoc AI',
+};
+
+// "Contract.pdf, p. 4, 87% match"
+export const formatCitation = (source: Source): string =>
+  [
+    source.document_title || (source.document_id !== undefined ? `Document #${source.document_id}` : 'Untitled source'),
+    source.page !== undefined && `p. ${source.page}`,
+    source.score !== undefined && `${(source.score * 100).toFixed(0)}% match`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+export const describeExportScope = (data: ChatExport): string =>
+  data.document ? `Document: ${data.document.title}` : 'All documents';
+
+export const toMarkdown = (data: ChatExport): string => {
+  const lines = [
+    `# ${data.title}`,
+    '',
+    `- Scope: ${describeExportScope(data)}`,
+    `- Exported: ${formatDateTime(data.exported_at)}`,
+    `- Messages: ${data.messages.length}`,
+    '',
+    '---',
+  ];
+
+  for (const message of data.messages) {
+    lines.push('', `### ${ROLE_LABELS[message.role]} · ${formatDateTime(message.timestamp)}`, '', message.content.trim());
+    if (message.role === 'user' && message.scope && !isScopeEmpty(message.scope)) {
+      lines.push('', `_Scope: ${describeScope(message.scope)}_`);
+    }
+    if (message.sources?.length) {
+      lines.push('', '**Sources**', '');
+      message.sources.forEach((source, i) => lines.push(`${i + 1}. ${formatCitation(source)}`));
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+export const toJson = (data: ChatExport): string => JSON.stringify(data, null, 2);
+
+// "Q3 contract review" -> "q3-contract-review-2024-05-01"
+export const exportFileName = (data: ChatExport, extension: string): string => {
+  const slug = data.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'conversation';
+  return `${slug}-${data.exported_at.slice(0, 10)}.${extension}`;
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoke after the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+// Schema errors blame "the server"; for an imported file, name the file instead
+const invalidFile = (data?: unknown) =>
+  new ApiError('This file is not a SmartDoc conversation export.', { code: 'invalid_response', data });
+
+const parseScope = (value: unknown, path: string): ThreadScope => {
+  const scope = string(value, path);
+  if (scope !== 'global' && !/^document:\d+$/.test(scope)) throw invalidFile({ path, received: scope });
+  return scope as ThreadScope;
+};
+
+// ✅ PARSE A JSON EXPORT BACK INTO A CONVERSATION
+export const parseChatExport = (text: string): ChatExport => {
+  let data: Record<string, unknown>;
+  try {
+    data = record(JSON.parse(text));
+  } catch {
+    throw invalidFile();
+  }
+
+  if (data.format !== CHAT_EXPORT_FORMAT || typeof data.version !== 'number') throw invalidFile();
+  if (data.version > CHAT_EXPORT_VERSION) {
+    throw new ApiError('This export was made by a newer version of SmartDoc.', { code: 'invalid_response' });
+  }
+
+  try {
+    const document = optional(record)(data.document, '$.document');
+    return {
+      format: CHAT_EXPORT_FORMAT,
+      version: data.version,
+      title: string(data.title, '$.title'),
+      scope: parseScope(data.scope, '$.scope'),
+      document: document && {
+        id: number(document.id, '$.document.id'),
+        title: string(document.title, '$.document.title'),
+      },
+      exported_at: string(data.exported_at, '$.exported_at'),
+      messages: arrayOf(parseMessage)(data.messages, '$.messages'),
+    };
+  } catch (err) {
+    throw invalidFile(err instanceof ApiError ? err.data : undefined);
+  }
+};
@@ -0,0 +1,127 @@
+// lib/chunkedUpload.ts
+import { completeUpload, createUploadSession, getUploadSession, uploadChunk } from './sdk';
+import { toApiError } from './errors';
+import { resolveContentType } from './fileTypes';
+import type { UploadOptions } from './uploadQueue';
+
+export const CHUNK_SIZE = 5 * 1024 * 1024;
+
+const MAX_CHUNK_ATTEMPTS = 3;
+const RETRY_BASE_DELAY = 1000;
+const SESSIONS_KEY = 'smartdoc_upload_sessions';
+
+interface UploadSession {
+  id: string;
+  chunk_size: number;
+  received_chunks: number[];
+}
+
+// Stored per file so an interrupted upload can resume after a page reload
+interface StoredSession {
+  id: string;
+  chunk_size: number;
+  created_at: number;
+}
+
+// Same name, size and modification time is treated as the same file
+const fingerprintFile = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+const readSessions = (): Record<string, StoredSession> => {
+  try {
+    return JSON.parse(localStorage.getItem(SESSIONS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveSession = (fingerprint: string, session: StoredSession | null) => {
+  const sessions = readSessions();
+  if (session) sessions[fingerprint] = session;
+  else delete sessions[fingerprint];
+  localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+};
+
+const sha256 = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+// Resume the stored session for this file, or open a new one
+const openSession = async (file: File, fingerprint: string, signal: AbortSignal): Promise<UploadSession> => {
+  const stored = readSessions()[fingerprint];
+  if (stored) {
+    try {
+      const { received_chunks } = await getUploadSession(stored.id, { signal });
+      return { id: stored.id, chunk_size: stored.chunk_size, received_chunks };
+    } catch (err) {
+      // Expired or unknown session - start over below
+      if (toApiError(err).status !== 404) throw err;
+      saveSession(fingerprint, null);
+    }
+  }
+
+  const created = await createUploadSession({
+    filename: file.name,
+    size: file.size,
+    content_type: resolveContentType(file) || file.type,
+    chunk_size: CHUNK_SIZE,
+    total_chunks: Math.ceil(file.size / CHUNK_SIZE),
+  }, { signal });
+
+  const session: UploadSession = { ...created, chunk_size: created.chunk_size || CHUNK_SIZE };
+  saveSession(fingerprint, { id: session.id, chunk_size: session.chunk_size, created_at: Date.now() });
+  return session;
+};
+
+// ✅ UPLOAD A FILE IN CHECKSUMMED CHUNKS, RESUMING FROM THE LAST ACKNOWLEDGED ONE
+export const uploadInChunks = async (file: File, { signal, onProgress }: UploadOptions): Promise<void> => {
+  const fingerprint = fingerprintFile(file);
+  const session = await openSession(file, fingerprint, signal);
+  const totalChunks = Math.ceil(file.size / session.chunk_size);
+  const received = new Set(session.received_chunks);
+
+  const chunkBytes = (index: number) => Math.min(session.chunk_size, file.size - index * session.chunk_size);
+  let acknowledgedBytes = [...received].reduce((sum, index) => sum + chunkBytes(index), 0);
+  onProgress(Math.round((acknowledgedBytes * 100) / file.size));
+
+  for (let index = 0; index < totalChunks; index++) {
+    if (received.has(index)) continue;
+
+    const start = index * session.chunk_size;
+    const chunk = file.slice(start, start + chunkBytes(index));
+    const checksum = await sha256(chunk);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await uploadChunk(session.id, index, chunk, checksum, {
+          signal,
+          onProgress: (loaded) => onProgress(Math.round(((acknowledgedBytes + loaded) * 100) / file.size)),
+        });
+        break;
+      } catch (err) {
+        // Client errors (bad checksum, gone session) won't fix themselves on retry
+        const { status } = toApiError(err);
+        if (signal.aborted || attempt >= MAX_CHUNK_ATTEMPTS || (status && status < 500 && status !== 408)) throw err;
+        await wait(RETRY_BASE_DELAY * 2 ** (attempt - 1), signal);
+      }
+    }
+
+    received.add(index);
+    acknowledgedBytes += chunkBytes(index);
+    onProgress(Math.round((acknowledgedBytes * 100) / file.size));
+  }
+
+  await completeUpload(session.id, file.name, { signal });
+  saveSession(fingerprint, null);
+};
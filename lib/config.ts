@@ -0,0 +1,16 @@
+// lib/config.ts
+
+// Read from environment variable
+export const BACKEND_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api';
+
+// "token": JWTs in localStorage, sent as a Bearer header (default)
+// "cookie": JWTs in httpOnly cookies, API calls go through the /api/proxy route handler
+export type AuthMode = 'token' | 'cookie';
+export const AUTH_MODE: AuthMode = process.env.NEXT_PUBLIC_AUTH_MODE === 'cookie' ? 'cookie' : 'token';
+export const IS_COOKIE_MODE = AUTH_MODE === 'cookie';
+
+// Base URL the browser talks to
+export const API_URL = IS_COOKIE_MODE ? '/api/proxy' : BACKEND_URL;
+
+// Non-httpOnly flag cookie so the client can tell a cookie session exists
+export const SESSION_COOKIE = 'smartdoc_session';
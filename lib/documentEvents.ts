@@ -0,0 +1,120 @@
+// lib/documentEvents.ts
+import { useEffect, useRef, useState } from 'react';
+import { BACKEND_URL, IS_COOKIE_MODE } from './config';
+import { getAccessToken } from './session';
+import type { Document, DocumentProgress } from '../types';
+
+export interface DocumentStatusEvent {
+  type: 'document.status';
+  document_id: number;
+  status: Document['status'];
+  progress?: DocumentProgress;
+  analysis_result?: Document['analysis_result'];
+}
+
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+// Consecutive failed attempts before the channel is considered unavailable
+const MAX_RECONNECT_ATTEMPTS = 5;
+// How long a socket must stay open to count as connected when the server
+// neither acknowledges the auth message nor sends an event
+const STABLE_CONNECTION_DELAY = 5000;
+
+// ws(s)://<api host>/ws/documents/ unless a dedicated URL is configured
+const WS_URL = process.env.NEXT_PUBLIC_WS_URL || `${BACKEND_URL.replace(/^http/, 'ws').replace(/\/api\/?$/, '')}/ws/documents/`;
+
+// Cookie sessions have no token for the socket; only a dedicated, cookie-authenticated
+// NEXT_PUBLIC_WS_URL can be used, otherwise the dashboard polls
+const CHANNEL_SUPPORTED = !IS_COOKIE_MODE || !!process.env.NEXT_PUBLIC_WS_URL;
+
+export type ChannelState = 'connecting' | 'open' | 'unavailable';
+
+const isStatusEvent = (data: unknown): data is DocumentStatusEvent => {
+  const event = data as DocumentStatusEvent;
+  return event?.type === 'document.status' && typeof event.document_id === 'number' && typeof event.status === 'string';
+};
+
+// ✅ PUSH CHANNEL FOR PER-DOCUMENT STATUS AND PROGRESS
+// Reconnects with exponential backoff; reports "unavailable" after repeated
+// failures so the caller can fall back to polling.
+export const useDocumentEvents = (enabled: boolean, onEvent: (event: DocumentStatusEvent) => void): ChannelState => {
+  const [state, setState] = useState<ChannelState>(CHANNEL_SUPPORTED ? 'connecting' : 'unavailable');
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!enabled || !CHANNEL_SUPPORTED || typeof WebSocket === 'undefined') return;
+
+    let socket: WebSocket | null = null;
+    let attempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let stableTimer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const connect = () => {
+      const ws = new WebSocket(WS_URL);
+      socket = ws;
+      let confirmed = false;
+
+      // A server that rejects the token still accepts the socket and closes it
+      // right after, so only a confirmed connection resets the backoff
+      const confirm = () => {
+        if (confirmed) return;
+        confirmed = true;
+        clearTimeout(stableTimer);
+        attempts = 0;
+        setState('open');
+      };
+
+      // The token goes in the first message, never the URL, so it stays out of
+      // server and proxy access logs. Cookie sessions are authenticated by the
+      // handshake itself.
+      ws.onopen = () => {
+        const token = getAccessToken();
+        if (token) ws.send(JSON.stringify({ type: 'auth', token }));
+        stableTimer = setTimeout(confirm, STABLE_CONNECTION_DELAY);
+      };
+
+      ws.onmessage = (message) => {
+        try {
+          const data = JSON.parse(message.data);
+          if (data?.type === 'auth.ok') confirm();
+          if (isStatusEvent(data)) {
+            confirm();
+            onEventRef.current(data);
+          }
+        } catch (err) {
+          console.error("Status event error:", err);
+        }
+      };
+
+      ws.onclose = () => {
+        clearTimeout(stableTimer);
+        if (closed) return;
+        attempts += 1;
+        if (attempts >= MAX_RECONNECT_ATTEMPTS) {
+          setState('unavailable');
+        } else {
+          setState('connecting');
+        }
+        // Keep retrying in the background even after falling back to polling
+        const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** (attempts - 1), RECONNECT_MAX_DELAY);
+        reconnectTimer = setTimeout(connect, delay + Math.random() * 500);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      clearTimeout(stableTimer);
+      socket?.close();
+    };
+  }, [enabled]);
+
+  return state;
+};
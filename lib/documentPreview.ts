@@ -0,0 +1,104 @@
+// lib/documentPreview.ts
+// Card previews built in the browser from the document's file, which is always
+// fetched through the same-origin file endpoint (never the media URL).
+import { getDocumentFile, type RequestOptions } from './sdk';
+import { getFileType, type FileKind } from './fileTypes';
+import type { Document } from '../types';
+
+export type DocumentPreview =
+  | { kind: 'image'; url: string }
+  | { kind: 'text'; excerpt: string };
+
+// PDFs already open in the viewer; downloading them for a thumbnail isn't worth it
+const PREVIEW_KINDS: FileKind[] = ['image', 'docx', 'text', 'markdown', 'html'];
+// Larger files keep the plain icon rather than be downloaded for a thumbnail
+const PREVIEW_MAX_BYTES = 5 * 1024 * 1024;
+const EXCERPT_LENGTH = 200;
+
+export const hasPreview = (doc: Document) => {
+  const kind = getFileType(doc.content_type)?.kind;
+  return !!kind && PREVIEW_KINDS.includes(kind) && (doc.file_size ?? 0) <= PREVIEW_MAX_BYTES;
+};
+
+const excerptOf = (text: string) => text.replace(/\s+/g, ' ').trim().slice(0, EXCERPT_LENGTH);
+
+// Headings, list markers, emphasis, links and code fences
+const stripMarkdown = (text: string) => text
+  .replace(/```[\s\S]*?```/g, ' ')
+  .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+  .replace(/[*_`~]/g, '');
+
+// Parsed into an inert document: nothing in it runs or loads
+const htmlText = (html: string) => new DOMParser().parseFromString(html, 'text/html').body.textContent ?? '';
+
+// ============================================================================
+// DOCX
+// ============================================================================
+
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+
+// Reads one file out of a ZIP archive (stored or deflated); null if it's missing
+const readZipEntry = async (data: ArrayBuffer, name: string): Promise<string | null> => {
+  const view = new DataView(data);
+  const decoder = new TextDecoder();
+
+  // The end-of-directory record sits in the last 22 bytes plus an optional comment
+  let end = -1;
+  for (let i = data.byteLength - 22; i >= Math.max(0, data.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) return null;
+
+  let offset = view.getUint32(end + 16, true);
+  for (let n = view.getUint16(end + 10, true); n > 0; n--) {
+    if (view.getUint32(offset, true) !== ZIP_DIRECTORY_ENTRY) return null;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const entryName = decoder.decode(new Uint8Array(data, offset + 46, nameLength));
+
+    if (entryName === name) {
+      const header = view.getUint32(offset + 42, true);
+      const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+      const bytes = new Uint8Array(data, start, compressedSize);
+      if (method === 0) return decoder.decode(bytes);
+      if (method !== 8) return null;
+      return new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).text();
+    }
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+  }
+  return null;
+};
+
+// The body text is in word/document.xml, one <w:p> per paragraph
+const docxText = async (data: ArrayBuffer) => {
+  const xml = await readZipEntry(data, 'word/document.xml');
+  if (!xml) return '';
+  const body = new DOMParser().parseFromString(xml, 'application/xml');
+  return Array.from(body.getElementsByTagName('w:p'), paragraph =>
+    Array.from(paragraph.getElementsByTagName('w:t'), run => run.textContent).join('')
+  ).join(' ');
+};
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+// ✅ BUILD A DOCUMENT'S PREVIEW: A THUMBNAIL FOR IMAGES, AN EXCERPT OTHERWISE
+// Image previews are object URLs that live as long as the page.
+export const loadDocumentPreview = async (doc: Document, options: RequestOptions = {}): Promise<DocumentPreview | null> => {
+  const kind = getFileType(doc.content_type)?.kind;
+  if (!kind || !PREVIEW_KINDS.includes(kind)) return null;
+
+  const data = await getDocumentFile(doc.id, options);
+  if (kind === 'image') return { kind, url: URL.createObjectURL(new Blob([data], { type: doc.content_type })) };
+
+  const text = kind === 'docx' ? await docxText(data) : new TextDecoder().decode(data);
+  const excerpt = excerptOf(kind === 'markdown' ? stripMarkdown(text) : kind === 'html' ? htmlText(text) : text);
+  return excerpt ? { kind: 'text', excerpt } : null;
+};
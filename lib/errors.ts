@@ -0,0 +1,125 @@
+// lib/errors.ts
+import axios from 'axios';
+
+export type ApiErrorCode = 'http' | 'network' | 'timeout' | 'aborted' | 'invalid_response' | 'unknown';
+
+// ✅ ONE NORMALIZED ERROR FOR EVERY FAILED API CALL
+// `fieldErrors` carries DRF-style `{ field: ["message"] }` validation errors.
+export class ApiError extends Error {
+  status: number | null;
+  code: ApiErrorCode;
+  fieldErrors: Record<string, string[]>;
+  data: unknown;
+  // True when the server gave no usable message and `message` is a placeholder
+  isGeneric: boolean;
+
+  constructor(
+    message: string,
+    { status = null, code = 'unknown', fieldErrors = {}, data, isGeneric = false }: {
+      status?: number | null;
+      code?: ApiErrorCode;
+      fieldErrors?: Record<string, string[]>;
+      data?: unknown;
+      isGeneric?: boolean;
+    } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+    this.data = data;
+    this.isGeneric = isGeneric;
+  }
+
+  get isUnauthorized() {
+    return this.status === 401;
+  }
+
+  get isAborted() {
+    return this.code === 'aborted';
+  }
+}
+
+const NON_FIELD_KEYS = ['detail', 'message', 'error', 'non_field_errors'];
+
+const toMessages = (value: unknown): string[] => {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(toMessages);
+  return [];
+};
+
+// Collect `{ field: ["message"] }` pairs, ignoring the generic message keys
+const extractFieldErrors = (data: unknown): Record<string, string[]> => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return {};
+  return Object.fromEntries(
+    Object.entries(data)
+      .filter(([key]) => !NON_FIELD_KEYS.includes(key))
+      .map(([key, value]) => [key, toMessages(value)] as const)
+      .filter(([, messages]) => messages.length > 0)
+  );
+};
+
+const extractMessage = (data: unknown): string | undefined => {
+  if (typeof data === 'string' && data.trim() && !data.trim().startsWith('<')) return data;
+  if (!data || typeof data !== 'object') return undefined;
+  const record = data as Record<string, unknown>;
+  for (const key of NON_FIELD_KEYS) {
+    const [message] = toMessages(record[key]);
+    if (message) return message;
+  }
+  return undefined;
+};
+
+const DEFAULT_MESSAGE = 'Something went wrong. Please try again.';
+
+export const toApiError = (err: unknown, fallbackMessage = DEFAULT_MESSAGE): ApiError => {
+  if (err instanceof ApiError) return err;
+
+  if (axios.isCancel(err) || (err instanceof DOMException && err.name === 'AbortError')) {
+    return new ApiError('Request cancelled', { code: 'aborted' });
+  }
+
+  // Axios errors and the stream client's errors share the `response` shape
+  const response = (err as { response?: { status?: number; data?: unknown } })?.response;
+  if (response?.status) {
+    const fieldErrors = extractFieldErrors(response.data);
+    const [firstField] = Object.entries(fieldErrors);
+    const message = extractMessage(response.data) || firstField?.[1][0];
+    return new ApiError(
+      message || fallbackMessage,
+      { status: response.status, code: 'http', fieldErrors, data: response.data, isGeneric: !message }
+    );
+  }
+
+  if (axios.isAxiosError(err)) {
+    if (err.code === 'ECONNABORTED' || err.code === 'ETIMEDOUT') {
+      return new ApiError('The server took too long to respond.', { code: 'timeout' });
+    }
+    return new ApiError('Could not reach the server. Check your connection.', { code: 'network' });
+  }
+
+  if (err instanceof TypeError) {
+    // fetch() rejects with a TypeError on network failure
+    return new ApiError('Could not reach the server. Check your connection.', { code: 'network' });
+  }
+
+  return new ApiError(fallbackMessage, { code: 'unknown', data: err, isGeneric: true });
+};
+
+// User-facing message for any error, with a context-specific fallback
+export const errorMessage = (err: unknown, fallbackMessage: string): string => {
+  const apiError = toApiError(err, fallbackMessage);
+  return apiError.isGeneric ? fallbackMessage : apiError.message;
+};
+
+// Like errorMessage, but prefers the first field error as "Label: message"
+// for forms that show a single error banner
+export const fieldErrorMessage = (err: unknown, labels: Record<string, string>, fallbackMessage: string): string => {
+  const { fieldErrors } = toApiError(err, fallbackMessage);
+  for (const [field, label] of Object.entries(labels)) {
+    const [message] = fieldErrors[field] || [];
+    if (message) return `${label}: ${message}`;
+  }
+  return errorMessage(err, fallbackMessage);
+};
@@ -0,0 +1,127 @@
+// lib/fileTypes.ts
+
+export type FileKind = 'pdf' | 'docx' | 'text' | 'markdown' | 'html' | 'image';
+
+export interface FileTypeConfig {
+  kind: FileKind;
+  label: string;
+  extensions: string[];
+  // Returns an error message when the file's contents don't match its type
+  validate: (file: File) => Promise<string | null>;
+}
+
+const SNIFF_BYTES = 4096;
+
+const readHead = async (file: File, length = SNIFF_BYTES) =>
+  new Uint8Array(await file.slice(0, length).arrayBuffer());
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+// Text formats must decode as UTF-8 and contain no NUL bytes
+const looksLikeText = (bytes: Uint8Array) => {
+  if (bytes.includes(0)) return false;
+  try {
+    // `stream` tolerates a multi-byte character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const signatureValidator = (label: string, signatures: { bytes: number[]; offset?: number }[]) =>
+  async (file: File) => {
+    const head = await readHead(file, 16);
+    return signatures.some(sig => startsWith(head, sig.bytes, sig.offset))
+      ? null
+      : `${file.name} is not a valid ${label} file`;
+  };
+
+const textValidator = (label: string, check?: (text: string) => boolean) =>
+  async (file: File) => {
+    const head = await readHead(file);
+    if (!looksLikeText(head)) return `${file.name} is not a valid ${label} file`;
+    if (check && !check(new TextDecoder().decode(head))) return `${file.name} is not a valid ${label} file`;
+    return null;
+  };
+
+// ✅ ALLOWED UPLOAD TYPES, KEYED BY MIME TYPE
+export const SUPPORTED_FILE_TYPES: Record<string, FileTypeConfig> = {
+  'application/pdf': {
+    kind: 'pdf',
+    label: 'PDF',
+    extensions: ['.pdf'],
+    validate: signatureValidator('PDF', [{ bytes: ascii('%PDF') }]),
+  },
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
+    kind: 'docx',
+    label: 'Word',
+    extensions: ['.docx'],
+    // DOCX is a ZIP container
+    validate: signatureValidator('Word', [{ bytes: [0x50, 0x4b, 0x03, 0x04] }]),
+  },
+  'text/plain': {
+    kind: 'text',
+    label: 'Text',
+    extensions: ['.txt'],
+    validate: textValidator('text'),
+  },
+  'text/markdown': {
+    kind: 'markdown',
+    label: 'Markdown',
+    extensions: ['.md', '.markdown'],
+    validate: textValidator('Markdown'),
+  },
+  'text/html': {
+    kind: 'html',
+    label: 'HTML',
+    extensions: ['.html', '.htm'],
+    validate: textValidator('HTML', text => /<[a-z!][\s\S]*>/i.test(text)),
+  },
+  'image/png': {
+    kind: 'image',
+    label: 'PNG',
+    extensions: ['.png'],
+    validate: signatureValidator('PNG', [{ bytes: [0x89, 0x50, 0x4e, 0x47] }]),
+  },
+  'image/jpeg': {
+    kind: 'image',
+    label: 'JPEG',
+    extensions: ['.jpg', '.jpeg'],
+    validate: signatureValidator('JPEG', [{ bytes: [0xff, 0xd8, 0xff] }]),
+  },
+  'image/webp': {
+    kind: 'image',
+    label: 'WebP',
+    extensions: ['.webp'],
+    validate: signatureValidator('WebP', [{ bytes: ascii('WEBP'), offset: 8 }]),
+  },
+};
+
+// Documents uploaded before content types were tracked are all PDFs
+export const DEFAULT_CONTENT_TYPE = 'application/pdf';
+
+// `accept` attribute value for file inputs
+export const ACCEPTED_FILE_TYPES = Object.entries(SUPPORTED_FILE_TYPES)
+  .flatMap(([mime, config]) => [mime, ...config.extensions])
+  .join(',');
+
+export const SUPPORTED_FORMAT_LABELS = [...new Set(Object.values(SUPPORTED_FILE_TYPES).map(t => t.label))];
+
+// Browsers leave `type` empty for many text formats (e.g. .md), so fall back to the extension
+export const resolveContentType = (file: File): string | null => {
+  if (SUPPORTED_FILE_TYPES[file.type]) return file.type;
+  const name = file.name.toLowerCase();
+  const match = Object.entries(SUPPORTED_FILE_TYPES).find(([, config]) =>
+    config.extensions.some(ext => name.endsWith(ext))
+  );
+  return match?.[0] ?? null;
+};
+
+export const getFileType = (contentType?: string): FileTypeConfig | undefined =>
+  SUPPORTED_FILE_TYPES[contentType || DEFAULT_CONTENT_TYPE];
+
+export const isPdf = (contentType?: string) => getFileType(contentType)?.kind === 'pdf';
@@ -0,0 +1,45 @@
+// lib/format.ts
+// Display helpers shared by the dashboard and the document pages.
+import type { Document } from '../types';
+
+export const STATUS_CONFIG = {
+  pending: { color: 'yellow', label: 'Pending' },
+  processing: { color: 'blue', label: 'Processing' },
+  completed: { color: 'green', label: 'Ready' },
+  failed: { color: 'red', label: 'Failed' }
+} as const;
+
+export const getStatusStyle = (status: Document['status']) => {
+  const config = STATUS_CONFIG[status];
+  return {
+    dotColor: `bg-${config.color}-500`,
+    textColor: `text-${config.color}-400`,
+    borderColor: `border-${config.color}-500/30`,
+    bgColor: `bg-${config.color}-500/10`
+  };
+};
+
+export const formatFileSize = (bytes?: number): string => {
+  if (!bytes) return 'Unknown size';
+  const kb = bytes / 1024;
+  const mb = kb / 1024;
+  return mb >= 1 ? `${mb.toFixed(1)} MB` : `${kb.toFixed(0)} KB`;
+};
+
+export const formatTimestamp = (timestamp?: string | number): string => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).format(date);
+};
+
+// Full date and time, for records that leave the app (exports, diagnostics)
+export const formatDateTime = (timestamp?: string | number): string =>
+  timestamp ? new Date(timestamp).toLocaleString() : '';
+
+export const formatCount = (value?: number): string =>
+  value === undefined ? '—' : new Intl.NumberFormat('en-US').format(value);
@@ -0,0 +1,228 @@
+// lib/forms.ts
+// Schema-driven form state: field-level rules, server error mapping and the
+// props that wire an input to its accessible error message.
+import { useState } from 'react';
+import { toApiError } from './errors';
+
+export type FormValues = Record<string, string>;
+
+// Returns an error message, or undefined when the value passes
+export type Rule<V extends FormValues> = (value: string, values: V) => string | undefined;
+
+export type FormSchema<V extends FormValues> = { [K in keyof V]?: Rule<V>[] };
+
+export type FormErrors<V extends FormValues> = Partial<Record<keyof V, string>>;
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Django's default username validator: letters, digits and @/./+/-/_
+const USERNAME_PATTERN = /^[\w.@+-]+$/;
+export const USERNAME_MAX_LENGTH = 150;
+export const PASSWORD_MIN_LENGTH = 8;
+
+export const required = <V extends FormValues>(message = 'This field is required.'): Rule<V> =>
+  value => (value.trim() ? undefined : message);
+
+export const email = <V extends FormValues>(message = 'Enter a valid email address.'): Rule<V> =>
+  value => (!value || EMAIL_PATTERN.test(value.trim()) ? undefined : message);
+
+export const minLength = <V extends FormValues>(length: number, message?: string): Rule<V> =>
+  value => (!value || value.length >= length ? undefined : message || `Must be at least ${length} characters.`);
+
+export const maxLength = <V extends FormValues>(length: number, message?: string): Rule<V> =>
+  value => (value.length <= length ? undefined : message || `Must be ${length} characters or fewer.`);
+
+export const username = <V extends FormValues>(
+  message = 'Use only letters, digits and @ . + - _ characters.'
+): Rule<V> =>
+  value => (!value || USERNAME_PATTERN.test(value) ? undefined : message);
+
+export const matchesField = <V extends FormValues>(field: keyof V, message = 'Values do not match.'): Rule<V> =>
+  (value, values) => (value === values[field] ? undefined : message);
+
+// Rejects passwords scoring below `minScore` on the strength meter
+export const strongPassword = <V extends FormValues>(minScore = 2): Rule<V> =>
+  value => {
+    if (!value) return undefined;
+    if (value.length < PASSWORD_MIN_LENGTH) return `Must be at least ${PASSWORD_MIN_LENGTH} characters.`;
+    return passwordStrength(value).score >= minScore
+      ? undefined
+      : 'Too easy to guess. Mix upper and lower case letters, digits and symbols.';
+  };
+
+// ============================================================================
+// PASSWORD STRENGTH
+// ============================================================================
+
+export const PASSWORD_STRENGTH_LABELS = ['Too weak', 'Weak', 'Fair', 'Good', 'Strong'] as const;
+
+const COMMON_PASSWORDS = ['password', '12345678', '123456789', 'qwerty', 'letmein', 'welcome', 'iloveyou', 'admin'];
+
+export interface PasswordStrength {
+  // 0 (too weak) to 4 (strong)
+  score: number;
+  label: (typeof PASSWORD_STRENGTH_LABELS)[number];
+}
+
+export const passwordStrength = (password: string): PasswordStrength => {
+  const lower = password.toLowerCase();
+  const variety = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter(pattern => pattern.test(password)).length;
+
+  let score = 0;
+  if (password.length >= PASSWORD_MIN_LENGTH) score += 1;
+  if (password.length >= 12) score += 1;
+  if (variety >= 3) score += 1;
+  if (variety === 4 || password.length >= 16) score += 1;
+  if (COMMON_PASSWORDS.some(common => lower.includes(common)) || /^(.)\1+$/.test(password)) score = 0;
+
+  score = Math.min(score, 4);
+  return { score, label: PASSWORD_STRENGTH_LABELS[score] };
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+// First failing rule per field
+export const validate = <V extends FormValues>(schema: FormSchema<V>, values: V): FormErrors<V> => {
+  const errors: FormErrors<V> = {};
+  for (const field of Object.keys(schema) as (keyof V)[]) {
+    for (const rule of schema[field] || []) {
+      const message = rule(values[field] ?? '', values);
+      if (message) {
+        errors[field] = message;
+        break;
+      }
+    }
+  }
+  return errors;
+};
+
+// Puts each backend field error on the matching input. Keys the form has no
+// input for (and non-field errors) become the form-level message instead.
+export const mapServerErrors = <V extends FormValues>(
+  err: unknown,
+  fields: (keyof V)[],
+  fallbackMessage: string
+): { fieldErrors: FormErrors<V>; formError?: string } => {
+  const apiError = toApiError(err, fallbackMessage);
+  const fieldErrors: FormErrors<V> = {};
+  const unmatched: string[] = [];
+
+  for (const [key, messages] of Object.entries(apiError.fieldErrors)) {
+    if (fields.includes(key)) {
+      fieldErrors[key as keyof V] = messages.join(' ');
+    } else {
+      unmatched.push(`${key.replace(/_/g, ' ')}: ${messages.join(' ')}`);
+    }
+  }
+
+  // `detail` / `non_field_errors`, unless the message is just a field error again
+  const detail = !apiError.isGeneric && !Object.values(apiError.fieldErrors).flat().includes(apiError.message)
+    ? apiError.message
+    : undefined;
+  const formError = [detail, ...unmatched].filter(Boolean).join(' ');
+  const hasFieldErrors = Object.keys(fieldErrors).length > 0;
+
+  return { fieldErrors, formError: formError || (hasFieldErrors ? undefined : fallbackMessage) };
+};
+
+// ============================================================================
+// FORM HOOK
+// ============================================================================
+
+interface UseFormOptions<V extends FormValues> {
+  initialValues: V;
+  schema: FormSchema<V>;
+  onSubmit: (values: V) => Promise<void>;
+  // Message when the server fails without saying why
+  fallbackError: string;
+}
+
+// ✅ FORM STATE WITH CLIENT RULES AND SERVER ERRORS ON THE SAME FIELDS
+// Fields are validated on blur and, after the first submit, on every change.
+export const useForm = <V extends FormValues>({ initialValues, schema, onSubmit, fallbackError }: UseFormOptions<V>) => {
+  const [values, setValues] = useState<V>(initialValues);
+  const [errors, setErrors] = useState<FormErrors<V>>({});
+  const [formError, setFormError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [hasSubmitted, setHasSubmitted] = useState(false);
+
+  const validateField = (field: keyof V, nextValues: V) => {
+    const message = validate({ [field]: schema[field] } as FormSchema<V>, nextValues)[field];
+    setErrors(prev => ({ ...prev, [field]: message }));
+  };
+
+  const setValue = (field: keyof V, value: string) => {
+    const nextValues = { ...values, [field]: value };
+    setValues(nextValues);
+    if (hasSubmitted) {
+      // Whole form, so cross-field rules (confirm password) stay in sync
+      setErrors(validate(schema, nextValues));
+    } else if (errors[field]) {
+      // Clear a server error as soon as the user edits the field
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setHasSubmitted(true);
+    setFormError('');
+
+    const clientErrors = validate(schema, values);
+    setErrors(clientErrors);
+    if (Object.values(clientErrors).some(Boolean)) {
+      // Move focus to the first invalid input
+      const firstInvalid = Object.keys(schema).find(field => clientErrors[field]);
+      if (firstInvalid) document.getElementById(firstInvalid)?.focus();
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(values);
+    } catch (err) {
+      const mapped = mapServerErrors<V>(err, Object.keys(values), fallbackError);
+      setErrors(mapped.fieldErrors);
+      setFormError(mapped.formError || '');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Back to the initial values, e.g. after a form that stays on screen was saved
+  const reset = () => {
+    setValues(initialValues);
+    setErrors({});
+    setFormError('');
+    setHasSubmitted(false);
+  };
+
+  // Spread onto an <input>; pairs it with the <FieldError> of the same name
+  const field = (name: keyof V & string) => ({
+    id: name,
+    name,
+    value: values[name],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setValue(name, e.target.value),
+    onBlur: () => {
+      if (values[name]) validateField(name, values);
+    },
+    'aria-invalid': errors[name] ? true : undefined,
+    'aria-describedby': errors[name] ? `${name}-error` : undefined,
+  });
+
+  return {
+    values,
+    errors,
+    formError,
+    setFormError,
+    isSubmitting,
+    field,
+    handleSubmit,
+    reset,
+  };
+};
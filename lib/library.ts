@@ -0,0 +1,188 @@
+// lib/library.ts
+// Organizing the document library: folder trees, tags, the collection the
+// sidebar is showing, the trash, and bulk updates over a selection of documents.
+import type { Document, Folder } from '../types';
+
+// What the library navigator has selected
+export type Collection =
+  | { type: 'all' }
+  | { type: 'unfiled' }
+  | { type: 'folder'; id: number }
+  | { type: 'tag'; tag: string }
+  | { type: 'trash' };
+
+export const ALL_DOCUMENTS: Collection = { type: 'all' };
+
+export interface FolderNode extends Folder {
+  children: FolderNode[];
+  depth: number;
+}
+
+// Stable string form, for comparing selections and React keys
+export const collectionKey = (collection: Collection): string => {
+  if (collection.type === 'folder') return `folder:${collection.id}`;
+  if (collection.type === 'tag') return `tag:${collection.tag}`;
+  return collection.type;
+};
+
+// ============================================================================
+// FOLDERS
+// ============================================================================
+
+// Nested, alphabetical; folders whose parent is missing are shown at the top level
+export const buildFolderTree = (folders: Folder[]): FolderNode[] => {
+  const ids = new Set(folders.map(f => f.id));
+  const build = (parent: number | null, depth: number): FolderNode[] =>
+    folders
+      .filter(f => (f.parent !== null && ids.has(f.parent) ? f.parent : null) === parent)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(f => ({ ...f, depth, children: depth < 32 ? build(f.id, depth + 1) : [] }));
+  return build(null, 0);
+};
+
+// Depth-first order with indentation info, for <select> options
+export const flattenFolderTree = (tree: FolderNode[]): FolderNode[] =>
+  tree.flatMap(node => [node, ...flattenFolderTree(node.children)]);
+
+// The folder and everything below it
+export const folderWithDescendants = (folders: Folder[], id: number): Set<number> => {
+  const result = new Set([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const folder of folders) {
+      if (folder.parent !== null && result.has(folder.parent) && !result.has(folder.id)) {
+        result.add(folder.id);
+        added = true;
+      }
+    }
+  }
+  return result;
+};
+
+// "Contracts / 2024 / Q3"
+export const folderPath = (folders: Folder[], id: number): string => {
+  const names: string[] = [];
+  const seen = new Set<number>();
+  let current = folders.find(f => f.id === id);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    names.unshift(current.name);
+    current = current.parent === null ? undefined : folders.find(f => f.id === current!.parent);
+  }
+  return names.join(' / ');
+};
+
+// ============================================================================
+// TAGS
+// ============================================================================
+
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+// Every tag in use with its document count, most used first
+export const collectTags = (documents: Document[]): { tag: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  for (const doc of documents) {
+    for (const tag of doc.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// ============================================================================
+// COLLECTIONS
+// ============================================================================
+
+// Folder collections include their subfolders
+export const filterByCollection = (documents: Document[], collection: Collection, folders: Folder[]): Document[] => {
+  switch (collection.type) {
+    case 'all':
+      return documents;
+    case 'unfiled':
+      return documents.filter(d => d.folder === null || d.folder === undefined);
+    case 'folder': {
+      const ids = folderWithDescendants(folders, collection.id);
+      return documents.filter(d => d.folder !== null && d.folder !== undefined && ids.has(d.folder));
+    }
+    case 'tag':
+      return documents.filter(d => d.tags?.includes(collection.tag));
+    case 'trash':
+      return documents.filter(d => d.deleted_at);
+  }
+};
+
+export const collectionLabel = (collection: Collection, folders: Folder[]): string => {
+  switch (collection.type) {
+    case 'all':
+      return 'All documents';
+    case 'unfiled':
+      return 'Unfiled';
+    case 'folder':
+      return folderPath(folders, collection.id) || 'Folder';
+    case 'tag':
+      return `#${collection.tag}`;
+    case 'trash':
+      return 'Trash';
+  }
+};
+
+// ============================================================================
+// TRASH
+// ============================================================================
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// How long trashed documents are kept when the server doesn't send `purge_at`
+export const TRASH_RETENTION_DAYS = 30;
+
+export const purgeDate = (doc: Document): Date | null => {
+  if (doc.purge_at) return new Date(doc.purge_at);
+  if (!doc.deleted_at) return null;
+  return new Date(new Date(doc.deleted_at).getTime() + TRASH_RETENTION_DAYS * DAY);
+};
+
+// "Deleted forever in 12 days"
+export const describePurge = (doc: Document, now = Date.now()): string => {
+  const date = purgeDate(doc);
+  if (!date) return '';
+  const days = Math.ceil((date.getTime() - now) / DAY);
+  if (days <= 0) return 'Deleted forever soon';
+  return days === 1 ? 'Deleted forever tomorrow' : `Deleted forever in ${days} days`;
+};
+
+// ✅ PUT BACK DOCUMENTS AN OPTIMISTIC REMOVAL DROPPED
+// They return to their place in `previous`; documents that arrived since stay first.
+export const reinsertDocuments = (current: Document[], previous: Document[], ids: number[]): Document[] => {
+  const restored = previous.filter(d => ids.includes(d.id) && !current.some(c => c.id === d.id));
+  if (restored.length === 0) return current;
+  const position = new Map(previous.map((d, i) => [d.id, i]));
+  return [...current, ...restored].sort((a, b) => (position.get(a.id) ?? -1) - (position.get(b.id) ?? -1));
+};
+
+// ============================================================================
+// BULK ACTIONS
+// ============================================================================
+
+const BULK_CONCURRENCY = 4;
+
+// ✅ RUN ONE REQUEST PER DOCUMENT (OR THREAD), A FEW AT A TIME
+// Never rejects; the caller reports which ones failed. `onProgress` gets the
+// number finished so far, failed or not.
+export const runBulk = async <T>(ids: T[], action: (id: T) => Promise<unknown>, onProgress?: (done: number) => void) => {
+  const failed: T[] = [];
+  const queue = [...ids];
+  let done = 0;
+  const worker = async () => {
+    for (let id = queue.shift(); id !== undefined; id = queue.shift()) {
+      try {
+        await action(id);
+      } catch (err) {
+        console.error("Bulk action error:", err);
+        failed.push(id);
+      }
+      onProgress?.(++done);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(BULK_CONCURRENCY, ids.length) }, worker));
+  return { succeeded: ids.filter(id => !failed.includes(id)), failed };
+};
@@ -0,0 +1,72 @@
+// lib/markdown.ts
+// Sanitizing and citation-linking for AI answers rendered as Markdown.
+import { defaultSchema } from 'rehype-sanitize';
+import type { Element, ElementContent, Nodes, Root, RootContent } from 'hast';
+
+// GitHub's schema, plus the classes remark-math puts on formulas
+export const SANITIZE_SCHEMA = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
+
+const CITATION_PATTERN = /\[(\d+)\]/g;
+
+// Text inside these is left alone
+const SKIP_TAGS = new Set(['a', 'code', 'pre']);
+
+const isSkipped = (element: Element) => {
+  const className = element.properties.className;
+  return SKIP_TAGS.has(element.tagName) || (Array.isArray(className) && className.includes('katex'));
+};
+
+export const citationId = (prefix: string, index: number) => `${prefix}-source-${index}`;
+
+const splitCitations = (value: string, count: number, idPrefix: string): ElementContent[] => {
+  const parts: ElementContent[] = [];
+  let lastIndex = 0;
+
+  for (const match of value.matchAll(CITATION_PATTERN)) {
+    const index = Number(match[1]);
+    // Bracketed numbers without a matching source stay plain text
+    if (index < 1 || index > count) continue;
+    if (match.index > lastIndex) parts.push({ type: 'text', value: value.slice(lastIndex, match.index) });
+    parts.push({
+      type: 'element',
+      tagName: 'a',
+      properties: { href: `#${citationId(idPrefix, index)}`, dataCitation: index },
+      children: [{ type: 'text', value: match[0] }],
+    });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex === 0) return [{ type: 'text', value }];
+  if (lastIndex < value.length) parts.push({ type: 'text', value: value.slice(lastIndex) });
+  return parts;
+};
+
+const linkCitations = (node: Root | Element, count: number, idPrefix: string) => {
+  const children = (node.children as RootContent[]).flatMap((child): RootContent[] => {
+    if (child.type === 'text') return splitCitations(child.value, count, idPrefix);
+    if (child.type === 'element' && !isSkipped(child)) linkCitations(child, count, idPrefix);
+    return [child];
+  });
+  // Only text nodes are replaced, and only with inline content
+  node.children = children as ElementContent[];
+};
+
+// ✅ REHYPE PLUGIN: `[n]` MARKERS BECOME LINKS TO THE n-TH SOURCE
+// Runs after sanitizing, which would otherwise strip the anchors' data attribute.
+export const rehypeCitations = ({ count, idPrefix }: { count: number; idPrefix: string }) =>
+  (tree: Root) => {
+    if (count > 0) linkCitations(tree, count, idPrefix);
+  };
+
+// Plain text of a rendered element, e.g. a highlighted code block
+export const textContent = (node?: Nodes): string => {
+  if (!node) return '';
+  if (node.type === 'text') return node.value;
+  return 'children' in node ? node.children.map(textContent).join('') : '';
+};
@@ -0,0 +1,161 @@
+// lib/offline.ts
+// Offline support: an IndexedDB cache of the last API data for read-only
+// viewing, the outbox of actions taken while offline, and connectivity state.
+// The app shell itself is cached by the service worker in public/sw.js.
+import { useSyncExternalStore } from 'react';
+import { toApiError } from './errors';
+import type { ThreadScope } from './threads';
+import type { GlobalAskScope } from '../types';
+
+const DB_NAME = 'smartdoc-offline';
+const DB_VERSION = 1;
+const CACHE_STORE = 'cache';
+const OUTBOX_STORE = 'outbox';
+
+// ============================================================================
+// INDEXEDDB
+// ============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(CACHE_STORE);
+        request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call try again, e.g. after a private-mode refusal
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Resolves with the request's result once the transaction has committed
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// ✅ FORGET EVERYTHING STORED FOR THE SIGNED-IN USER
+export const clearOfflineData = async () => {
+  if (typeof indexedDB === 'undefined') return;
+  await Promise.all([
+    run(CACHE_STORE, 'readwrite', store => store.clear()),
+    run(OUTBOX_STORE, 'readwrite', store => store.clear()),
+  ]);
+};
+
+// ============================================================================
+// CONNECTIVITY
+// ============================================================================
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+export const useOnlineStatus = () => useSyncExternalStore(subscribe, () => navigator.onLine, () => true);
+
+// The request never reached the server, as opposed to the server refusing it
+export const isOfflineError = (err: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const code = toApiError(err).code;
+  return code === 'network' || code === 'timeout';
+};
+
+// Production only: in development it would serve stale bundles
+export const registerServiceWorker = () => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.register('/sw.js').catch(err => console.error("Service worker error:", err));
+};
+
+// ============================================================================
+// CACHE
+// ============================================================================
+
+interface CacheRecord<T> {
+  value: T;
+  saved_at: number;
+}
+
+export interface CachedResult<T> {
+  value: T;
+  // When the data was saved, if it came from the cache rather than the server
+  cachedAt: number | null;
+}
+
+// ✅ LOAD FROM THE SERVER, FALLING BACK TO THE LAST COPY WHEN OFFLINE
+// Fresh data replaces the cached copy; any other failure is rethrown.
+export const withOfflineCache = async <T>(key: string, load: () => Promise<T>): Promise<CachedResult<T>> => {
+  try {
+    const value = await load();
+    run(CACHE_STORE, 'readwrite', store => store.put({ value, saved_at: Date.now() } satisfies CacheRecord<T>, key))
+      .catch(err => console.error("Offline cache error:", err));
+    return { value, cachedAt: null };
+  } catch (err) {
+    if (!isOfflineError(err)) throw err;
+    const cached = await run<CacheRecord<T> | undefined>(CACHE_STORE, 'readonly', store => store.get(key)).catch(() => undefined);
+    if (!cached) throw err;
+    return { value: cached.value, cachedAt: cached.saved_at };
+  }
+};
+
+// ============================================================================
+// OUTBOX
+// ============================================================================
+
+// Actions taken while offline, replayed in order once the connection is back
+export type OutboxAction =
+  | { type: 'upload'; file: File; path: string }
+  // Moves the document to the trash
+  | { type: 'delete'; document_id: number; title: string }
+  // `message_id` is the placeholder answer shown in the chat until it's sent
+  | { type: 'ask'; question: string; thread_scope: ThreadScope; scope?: GlobalAskScope; message_id: string };
+
+export type OutboxEntry = OutboxAction & { id: number; created_at: number };
+
+export const addToOutbox = async (action: OutboxAction): Promise<OutboxEntry> => {
+  const created_at = Date.now();
+  // Files and blobs are stored as-is; IndexedDB clones them
+  const id = await run(OUTBOX_STORE, 'readwrite', store => store.add({ ...action, created_at }));
+  return { ...action, id: id as number, created_at };
+};
+
+export const listOutbox = async (): Promise<OutboxEntry[]> => {
+  if (typeof indexedDB === 'undefined') return [];
+  const entries = await run<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => a.id - b.id);
+};
+
+export const removeFromOutbox = (id: number) => run(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+
+// "Upload report.pdf", for the offline banner
+export const describeOutboxEntry = (entry: OutboxEntry): string => {
+  switch (entry.type) {
+    case 'upload':
+      return `Upload ${entry.path}`;
+    case 'delete':
+      return `Move ${entry.title} to trash`;
+    case 'ask':
+      return `Ask "${entry.question.length > 40 ? `${entry.question.slice(0, 39)}…` : entry.question}"`;
+  }
+};
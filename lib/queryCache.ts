@@ -0,0 +1,189 @@
+// lib/queryCache.ts
+// A small in-memory cache for server data, keyed by a string such as
+// 'documents' or 'document:42'. Components read through useQuery(): they get
+// the cached value straight away and it's refreshed in the background once
+// stale (stale-while-revalidate). Concurrent loads of a key share one request,
+// and a load nobody is waiting for any more is aborted.
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface QueryState<T> {
+  data: T | undefined;
+  // The last load's error; cleared by the next successful one
+  error: unknown;
+  isFetching: boolean;
+  // When the data was last loaded, 0 if never (or invalidated)
+  updatedAt: number;
+}
+
+interface QueryEntry {
+  state: QueryState<unknown>;
+  request: { promise: Promise<unknown>; controller: AbortController } | null;
+  // The fetcher of the most recent useQuery() for the key, for invalidation
+  fetcher: QueryFetcher<unknown> | null;
+  observers: number;
+  listeners: Set<() => void>;
+}
+
+const EMPTY_STATE: QueryState<undefined> = { data: undefined, error: undefined, isFetching: false, updatedAt: 0 };
+
+const entries = new Map<string, QueryEntry>();
+
+const getEntry = (key: string): QueryEntry => {
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = { state: EMPTY_STATE, request: null, fetcher: null, observers: 0, listeners: new Set() };
+    entries.set(key, entry);
+  }
+  return entry;
+};
+
+// A new state object each time, so useSyncExternalStore sees the change
+const update = (entry: QueryEntry, patch: Partial<QueryState<unknown>>) => {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach(listener => listener());
+};
+
+// ============================================================================
+// READING & WRITING
+// ============================================================================
+
+// ✅ LOAD A KEY, SHARING THE REQUEST WITH ANY LOAD ALREADY IN FLIGHT
+export const fetchQuery = <T>(key: string, fetcher: QueryFetcher<T>): Promise<T> => {
+  const entry = getEntry(key);
+  if (entry.request) return entry.request.promise as Promise<T>;
+
+  const controller = new AbortController();
+  const promise = fetcher(controller.signal)
+    .then(data => {
+      if (!controller.signal.aborted) update(entry, { data, error: undefined, updatedAt: Date.now() });
+      return data;
+    }, err => {
+      if (!controller.signal.aborted) update(entry, { error: err });
+      throw err;
+    })
+    .finally(() => {
+      if (entry.request?.controller !== controller) return;
+      entry.request = null;
+      update(entry, { isFetching: false });
+    });
+
+  entry.request = { promise, controller };
+  update(entry, { isFetching: true });
+  return promise;
+};
+
+// Aborts the key's load in flight; its data and error are left as they were
+export const cancelQuery = (key: string) => {
+  const entry = entries.get(key);
+  if (!entry?.request) return;
+  entry.request.controller.abort();
+  entry.request = null;
+  update(entry, { isFetching: false });
+};
+
+export const getQueryData = <T>(key: string): T | undefined => entries.get(key)?.state.data as T | undefined;
+
+export const setQueryData = <T>(key: string, updater: T | ((prev: T | undefined) => T)) => {
+  const entry = getEntry(key);
+  const data = typeof updater === 'function'
+    ? (updater as (prev: T | undefined) => T)(entry.state.data as T | undefined)
+    : updater;
+  update(entry, { data });
+};
+
+// ✅ MARK A KEY STALE, RELOADING IT NOW IF IT'S ON SCREEN
+export const invalidateQuery = async (key: string) => {
+  const entry = entries.get(key);
+  if (!entry) return;
+  update(entry, { updatedAt: 0 });
+  if (entry.observers > 0 && entry.fetcher) {
+    cancelQuery(key);
+    await fetchQuery(key, entry.fetcher).catch(() => {});
+  }
+};
+
+// ✅ CHANGE CACHED DATA AHEAD OF THE SERVER
+// A load in flight is cancelled so its (older) response can't overwrite the
+// change. Returns the data from before, to roll back to if the request fails.
+export const optimisticUpdate = <T>(key: string, updater: (prev: T) => T): T | undefined => {
+  cancelQuery(key);
+  const previous = getQueryData<T>(key);
+  if (previous !== undefined) setQueryData<T>(key, updater(previous));
+  return previous;
+};
+
+// Everything cached belongs to the signed-in user. Entries are emptied rather
+// than dropped, so components still subscribed to them see the reset.
+export const clearQueryCache = () => {
+  entries.forEach(entry => {
+    entry.request?.controller.abort();
+    entry.request = null;
+    entry.state = EMPTY_STATE;
+    entry.listeners.forEach(listener => listener());
+  });
+};
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+export interface QueryOptions {
+  enabled?: boolean;
+  // How long loaded data counts as fresh, in ms; 0 reloads on every mount
+  staleTime?: number;
+}
+
+// ✅ SUBSCRIBE TO A KEY, LOADING IT WHEN IT'S MISSING OR STALE
+// `refetch` never rejects; failures end up in `error`, next to the last good data.
+export const useQuery = <T>(key: string, fetcher: QueryFetcher<T>, { enabled = true, staleTime = 0 }: QueryOptions = {}) => {
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  }, [fetcher]);
+
+  const subscribe = useCallback((listener: () => void) => {
+    const entry = getEntry(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  }, [key]);
+  const state = useSyncExternalStore(
+    subscribe,
+    () => getEntry(key).state as QueryState<T>,
+    () => EMPTY_STATE as QueryState<T>
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    const entry = getEntry(key);
+    const load: QueryFetcher<unknown> = signal => fetcherRef.current(signal);
+    entry.fetcher = load;
+    entry.observers++;
+    if (Date.now() - entry.state.updatedAt > staleTime) fetchQuery(key, load).catch(() => {});
+    return () => {
+      entry.observers--;
+      // Nobody is left to show the result
+      if (entry.observers === 0) cancelQuery(key);
+    };
+  }, [key, enabled, staleTime]);
+
+  const refetch = useCallback(async () => {
+    await fetchQuery(key, fetcherRef.current).catch(() => {});
+  }, [key]);
+
+  return { ...state, refetch };
+};
+
+// ✅ A SIGNAL FOR A COMPONENT'S OWN REQUESTS, ABORTED WHEN IT UNMOUNTS
+export const useRequestSignal = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+  return useCallback(() => controllerRef.current?.signal ?? new AbortController().signal, []);
+};
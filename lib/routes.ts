@@ -0,0 +1,26 @@
+// lib/routes.ts
+// Route access rules shared by proxy.ts and the client-side redirects.
+
+export const LOGIN_ROUTE = '/login';
+export const DEFAULT_AUTHENTICATED_ROUTE = '/dashboard';
+
+// Only for signed-out users; signed-in users are sent on to the app
+export const AUTH_ROUTES = [LOGIN_ROUTE, '/signup'];
+
+// Reachable by anyone. Every other page requires a session.
+export const PUBLIC_ROUTES = ['/', '/forgot-password', '/reset-password', '/verify-email'];
+
+const matches = (pathname: string, route: string) =>
+  route === '/' ? pathname === '/' : pathname === route || pathname.startsWith(`${route}/`);
+
+export const isAuthRoute = (pathname: string) => AUTH_ROUTES.some(route => matches(pathname, route));
+export const isPublicRoute = (pathname: string) => PUBLIC_ROUTES.some(route => matches(pathname, route));
+
+// Only same-origin paths are allowed as a post-login target (no open redirects)
+export const safeNextPath = (next: string | null | undefined) =>
+  next && next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') && !isAuthRoute(next.split(/[?#]/)[0])
+    ? next
+    : DEFAULT_AUTHENTICATED_ROUTE;
+
+export const loginUrl = (next?: string) =>
+  next && !isAuthRoute(next.split(/[?#]/)[0]) ? `${LOGIN_ROUTE}?next=${encodeURIComponent(next)}` : LOGIN_ROUTE;
@@ -0,0 +1,251 @@
+// lib/schemas.ts
+// Runtime checks for API responses. Each parser returns the typed value or
+// throws an `invalid_response` ApiError naming the offending path.
+import { ApiError } from './errors';
+import type {
+  AccessToken,
+  AnalysisResult,
+  AskResponse,
+  Document,
+  DocumentDiagnostics,
+  DocumentProgress,
+  Folder,
+  GlobalAskScope,
+  Message,
+  Source,
+  StatusChange,
+  Thread,
+  ThreadScope,
+  TokenPair,
+  UploadSession,
+  User,
+  UserSession,
+} from '../types';
+
+export type Parser<T> = (value: unknown, path?: string) => T;
+
+const invalid = (path: string, expected: string, value: unknown): never => {
+  throw new ApiError('The server sent an unexpected response.', {
+    code: 'invalid_response',
+    data: { path, expected, received: value === null ? 'null' : typeof value },
+  });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const record = (value: unknown, path = '$') => (isRecord(value) ? value : invalid(path, 'object', value));
+
+export const string = (value: unknown, path = '$'): string =>
+  typeof value === 'string' ? value : invalid(path, 'string', value);
+
+export const number = (value: unknown, path = '$'): number =>
+  typeof value === 'number' && !Number.isNaN(value) ? value : invalid(path, 'number', value);
+
+export const boolean = (value: unknown, path = '$'): boolean =>
+  typeof value === 'boolean' ? value : invalid(path, 'boolean', value);
+
+export const optional = <T>(parse: Parser<T>): Parser<T | undefined> =>
+  (value, path) => (value === undefined || value === null ? undefined : parse(value, path));
+
+export const arrayOf = <T>(parse: Parser<T>): Parser<T[]> =>
+  (value, path = '$') => (Array.isArray(value) ? value.map((item, i) => parse(item, `${path}[${i}]`)) : invalid(path, 'array', value));
+
+export const oneOf = <T extends string>(options: readonly T[]): Parser<T> =>
+  (value, path = '$') => (options.includes(value as T) ? (value as T) : invalid(path, options.join(' | '), value));
+
+// DRF list endpoints may or may not be paginated
+export const listOf = <T>(parse: Parser<T>): Parser<T[]> =>
+  (value, path = '$') => (isRecord(value) && 'results' in value ? arrayOf(parse)(value.results, `${path}.results`) : arrayOf(parse)(value, path));
+
+// ============================================================================
+// RESPONSE SCHEMAS
+// ============================================================================
+
+export const DOCUMENT_STATUSES = ['pending', 'processing', 'completed', 'failed'] as const;
+const STATUS_CHANGE_STATUSES = [...DOCUMENT_STATUSES, 'cancelled'] as const;
+
+export const parseSource: Parser<Source> = (value, path = '$') => {
+  const data = record(value, path);
+  return {
+    document_id: optional(number)(data.document_id, `${path}.document_id`),
+    document_title: optional(string)(data.document_title, `${path}.document_title`),
+    page: optional(number)(data.page, `${path}.page`),
+    chunk: optional(number)(data.chunk, `${path}.chunk`),
+    text: optional(string)(data.text, `${path}.text`),
+    score: optional(number)(data.score, `${path}.score`),
+  };
+};
+
+export const parseGlobalAskScope: Parser<GlobalAskScope> = (value, path = '$') => {
+  const data = record(value, path);
+  return {
+    document_ids: optional(arrayOf(number))(data.document_ids, `${path}.document_ids`),
+    tags: optional(arrayOf(string))(data.tags, `${path}.tags`),
+    statuses: optional(arrayOf(oneOf(DOCUMENT_STATUSES)))(data.statuses, `${path}.statuses`),
+    created_after: optional(string)(data.created_after, `${path}.created_after`),
+    created_before: optional(string)(data.created_before, `${path}.created_before`),
+  };
+};
+
+export const parseMessage: Parser<Message> = (value, path = '$') => {
+  const data = record(value, path);
+  return {
+    id: string(data.id, `${path}.id`),
+    role: oneOf(['user', 'ai'] as const)(data.role, `${path}.role`),
+    content: string(data.content, `${path}.content`),
+    timestamp: number(data.timestamp, `${path}.timestamp`),
+    sources: optional(arrayOf(parseSource))(data.sources, `${path}.sources`),
+    isGlobal: optional(boolean)(data.isGlobal, `${path}.isGlobal`),
+    scope: optional(parseGlobalAskScope)(data.scope, `${path}.scope`),
+  };
+};
+
+export const parseAnalysisResult: Parser<AnalysisResult> = (value, path = '$') => {
+  const data = record(value, path);
+  return {
+    insights: optional(string)(data.insights, `${path}.insights`),
+    error: optional(string)(data.error, `${path}.error`),
+    summary: optional(string)(data.summary, `${path}.summary`),
+    word_count: optional(number)(data.word_count, `${path}.word_count`),
+    page_count: optional(number)(data.page_count, `${path}.page_count`),
+  };
+};
+
+export const parseProgress: Parser<DocumentProgress> = (value, path = '$') => {
+  const data = record(value, path);
+  return {
+    stage: string(data.stage, `${path}.stage`),
+    current: optional(number)(data.current, `${path}.current`),
+    total: optional(number)(data.total, `${path}.total`),
+  };
+};
+
+export const parseDocument: Parser<Document> = (value, path = '$') => {
+  const data = record(value, path);
+  // Unknown extra fields are kept so newer backend features pass through
+  return {
+    ...data,
+    id: number(data.id, `${path}.id`),
+    title: string(data.title, `${path}.title`),
+    status: oneOf(DOCUMENT_STATUSES)(data.status, `${path}.status`),
+    analysis_result: optional(parseAnalysisResult)(data.analysis_result, `${path}.analysis_result`),
+    created_at: optional(string)(data.created_at, `${path}.created_at`),
+    updated_at: optional(string)(data.updated_at, `${path}.updated_at`),
+    file_size: optional(number)(data.file_size, `${path}.file_size`),
+    file: optional(string)(data.file, `${path}.file`),
+    content_type: optional(string)(data.content_type, `${path}.content_type`),
+    progress: optional(parseProgress)(data.progress, `${path}.progress`),
+    folder: optional(number)(data.folder, `${path}.folder`) ?? null,
+    tags: optional(arrayOf(string))(data.tags, `${path}.tags`) ?? [],
+    deleted_at: optional(string)(data.deleted_at, `${path}.deleted_at`) ?? null,
+    purge_at: optional(string)(data.purge_at, `${path}.purge_at`) ?? null,
+  };
+};
+
+export const parseFolder: Parser<Folder> = (value, path = '$') => {
+  const data = record(value, path);
+  return {
+    id: number(data.id, `${path}.id`),
+    name: string(data.name, `${path}.name`),
+    parent: optional(number)(data.parent, `${path}.parent`) ?? null,
+  };
+};
+
+export const parseAskResponse: Parser<AskResponse> = (value, path = '$') => {
+  const data = record(value, path);
+  return {
+    answer: string(data.answer, `${path}.answer`),
+    sources: optional(arrayOf(parseSource))(data.sources, `${path}.sources`),
+  };
+};
+
+export const parseTokenPair: Parser<TokenPair> = (value, path = '$') => {
+  const data = record(value, path);
+  return {
+    access: string(data.access, `${path}.access`),
+    refresh: string(data.refresh, `${path}.refresh`),
+  };
+};
+
+export const parseAccessToken: Parser<AccessToken> = (value, path = '$') => {
+  const data = record(value, path);
+  return {
+    access: string(data.access, `${path}.access`),
+    refresh: optional(string)(data.refresh, `${path}.refresh`),
+  };
+};
+
+export const parseUser: Parser<User> = (value, path = '$') => {
+  const data = record(value, path);
+  return {
+    id: optional(number)(data.id, `${path}.id`),
+    username: string(data.username, `${path}.username`),
+    email: string(data.email, `${path}.email`),
+  };
+};
+
+export const parseSession: Parser<UserSession> = (value, path = '$') => {
+  const data = record(value, path);
+  return {
+    id: number(data.id, `${path}.id`),
+    user_agent: optional(string)(data.user_agent, `${path}.user_agent`),
+    ip_address: optional(string)(data.ip_address, `${path}.ip_address`),
+    created_at: optional(string)(data.created_at, `${path}.created_at`),
+    last_active: optional(string)(data.last_active, `${path}.last_active`),
+    current: optional(boolean)(data.current, `${path}.current`),
+  };
+};
+
+export const parseStatusChange: Parser<StatusChange> = (value, path = '$') => {
+  const data = record(value, path);
+  return {
+    status: oneOf(STATUS_CHANGE_STATUSES)(data.status, `${path}.status`),
+    timestamp: string(data.timestamp, `${path}.timestamp`),
+    detail: optional(string)(data.detail, `${path}.detail`),
+  };
+};
+
+const isParameterValue = (value: unknown): value is string | number | boolean | null =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+export const parseDiagnostics: Parser<DocumentDiagnostics> = (value, path = '$') => {
+  const data = record(value, path);
+  const parameters = data.parameters === undefined || data.parameters === null ? {} : record(data.parameters, `${path}.parameters`);
+  return {
+    error: optional(string)(data.error, `${path}.error`),
+    history: optional(arrayOf(parseStatusChange))(data.history, `${path}.history`) || [],
+    // Nested values can't be shown as a single row, so they're dropped
+    parameters: Object.fromEntries(Object.entries(parameters).filter(([, param]) => isParameterValue(param))) as DocumentDiagnostics['parameters'],
+  };
+};
+
+export const parseThreadScope: Parser<ThreadScope> = (value, path = '$') => {
+  const scope = string(value, path);
+  return scope === 'global' || /^document:\d+$/.test(scope) ? (scope as ThreadScope) : invalid(path, 'global | document:<id>', value);
+};
+
+export const parseThread: Parser<Thread> = (value, path = '$') => {
+  const data = record(value, path);
+  return {
+    id: string(data.id, `${path}.id`),
+    scope: parseThreadScope(data.scope, `${path}.scope`),
+    title: string(data.title, `${path}.title`),
+    messages: optional(arrayOf(parseMessage))(data.messages, `${path}.messages`) || [],
+    created_at: number(data.created_at, `${path}.created_at`),
+    updated_at: number(data.updated_at, `${path}.updated_at`),
+  };
+};
+
+export const parseUploadSession: Parser<UploadSession> = (value, path = '$') => {
+  const data = record(value, path);
+  return {
+    // Kept as a string: it's only ever put back into URLs
+    id: typeof data.id === 'number' ? String(data.id) : string(data.id, `${path}.id`),
+    chunk_size: optional(number)(data.chunk_size, `${path}.chunk_size`),
+    received_chunks: optional(arrayOf(number))(data.received_chunks, `${path}.received_chunks`) || [],
+  };
+};
+
+export const parseArrayBuffer: Parser<ArrayBuffer> = (value, path = '$') =>
+  value instanceof ArrayBuffer ? value : invalid(path, 'binary data', value);
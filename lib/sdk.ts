@@ -0,0 +1,313 @@
+// lib/sdk.ts
+// Typed client for the SmartDoc API: one function per endpoint, responses
+// validated at runtime, every failure surfaced as an ApiError.
+import api from './api';
+import { toApiError } from './errors';
+import {
+  arrayOf,
+  listOf,
+  parseArrayBuffer,
+  parseAskResponse,
+  parseDiagnostics,
+  parseDocument,
+  parseFolder,
+  parseSession,
+  parseSource,
+  parseThread,
+  parseTokenPair,
+  parseUploadSession,
+  parseUser,
+  type Parser,
+} from './schemas';
+import { streamAsk, type StreamHandlers, type StreamResult } from './stream';
+import type {
+  AnalysisOptions,
+  AskResponse,
+  Document,
+  DocumentDiagnostics,
+  DocumentUpdateRequest,
+  Folder,
+  FolderRequest,
+  GlobalAskScope,
+  PasswordChangeRequest,
+  PasswordResetConfirmRequest,
+  Thread,
+  ThreadScope,
+  ThreadUpdate,
+  TokenPair,
+  TokenRequest,
+  User,
+  UidToken,
+  UserCreateRequest,
+  UserSession,
+  UserUpdateRequest,
+  UploadSession,
+  UploadSessionRequest,
+} from '../types';
+
+const API_TIMEOUT = 60000;
+
+export const ENDPOINTS = {
+  token: '/token/',
+  tokenRefresh: '/token/refresh/',
+  tokenRevoke: '/token/blacklist/',
+  users: '/users/',
+  me: '/users/me/',
+  setPassword: '/users/set_password/',
+  sessions: '/sessions/',
+  session: (id: number) => `/sessions/${id}/`,
+  activation: '/users/activation/',
+  resendActivation: '/users/resend_activation/',
+  passwordReset: '/users/reset_password/',
+  passwordResetConfirm: '/users/reset_password_confirm/',
+  documents: '/documents/',
+  document: (id: number) => `/documents/${id}/`,
+  documentFile: (id: number) => `/documents/${id}/file/`,
+  trash: '/documents/trash/',
+  trashDocument: (id: number) => `/documents/${id}/trash/`,
+  restoreDocument: (id: number) => `/documents/${id}/restore/`,
+  analyze: (id: number) => `/documents/${id}/analyze/`,
+  cancelAnalysis: (id: number) => `/documents/${id}/cancel/`,
+  diagnostics: (id: number) => `/documents/${id}/diagnostics/`,
+  ask: (id: number) => `/documents/${id}/ask/`,
+  globalAsk: '/documents/global_ask/',
+  folders: '/folders/',
+  folder: (id: number) => `/folders/${id}/`,
+  threads: '/threads/',
+  thread: (id: string) => `/threads/${id}/`,
+  uploads: '/uploads/',
+  upload: (id: string) => `/uploads/${id}/`,
+  uploadChunk: (id: string, index: number) => `/uploads/${id}/chunks/${index}/`,
+  completeUpload: (id: string) => `/uploads/${id}/complete/`,
+} as const;
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface UploadRequestOptions extends RequestOptions {
+  contentType?: string;
+  onProgress?: (percent: number) => void;
+}
+
+// Run a request, validate its body and normalize any failure
+const request = async <T>(send: () => Promise<{ data: unknown }>, parse: Parser<T>): Promise<T> => {
+  try {
+    const res = await send();
+    return parse(res.data);
+  } catch (err) {
+    throw toApiError(err);
+  }
+};
+
+const ignoreBody = () => undefined;
+
+// ============================================================================
+// AUTH & USERS
+// ============================================================================
+
+export const obtainToken = (credentials: TokenRequest, options: RequestOptions = {}): Promise<TokenPair> =>
+  request(() => api.post(ENDPOINTS.token, credentials, options), parseTokenPair);
+
+// Lives with the session logic so the axios interceptors can use it without a cycle
+export { refreshToken } from './session';
+
+export const revokeToken = (refresh: string, options: RequestOptions = {}): Promise<void> =>
+  request(() => api.post(ENDPOINTS.tokenRevoke, { refresh }, options), ignoreBody);
+
+export const createUser = (payload: UserCreateRequest, options: RequestOptions = {}): Promise<User> =>
+  request(() => api.post(ENDPOINTS.users, payload, options), parseUser);
+
+// Email verification and password reset (the backend emails a uid/token link)
+export const activateUser = (payload: UidToken, options: RequestOptions = {}): Promise<void> =>
+  request(() => api.post(ENDPOINTS.activation, payload, options), ignoreBody);
+
+export const resendActivation = (email: string, options: RequestOptions = {}): Promise<void> =>
+  request(() => api.post(ENDPOINTS.resendActivation, { email }, options), ignoreBody);
+
+export const requestPasswordReset = (email: string, options: RequestOptions = {}): Promise<void> =>
+  request(() => api.post(ENDPOINTS.passwordReset, { email }, options), ignoreBody);
+
+export const confirmPasswordReset = (payload: PasswordResetConfirmRequest, options: RequestOptions = {}): Promise<void> =>
+  request(() => api.post(ENDPOINTS.passwordResetConfirm, payload, options), ignoreBody);
+
+// ============================================================================
+// ACCOUNT
+// ============================================================================
+
+export const getCurrentUser = (options: RequestOptions = {}): Promise<User> =>
+  request(() => api.get(ENDPOINTS.me, options), parseUser);
+
+export const updateCurrentUser = (payload: UserUpdateRequest, options: RequestOptions = {}): Promise<User> =>
+  request(() => api.patch(ENDPOINTS.me, payload, options), parseUser);
+
+export const changePassword = (payload: PasswordChangeRequest, options: RequestOptions = {}): Promise<void> =>
+  request(() => api.post(ENDPOINTS.setPassword, payload, options), ignoreBody);
+
+// The backend deletes the user's documents along with the account
+export const deleteAccount = (currentPassword: string, options: RequestOptions = {}): Promise<void> =>
+  request(() => api.delete(ENDPOINTS.me, { ...options, data: { current_password: currentPassword } }), ignoreBody);
+
+export const listSessions = (options: RequestOptions = {}): Promise<UserSession[]> =>
+  request(() => api.get(ENDPOINTS.sessions, options), listOf(parseSession));
+
+export const revokeSession = (id: number, options: RequestOptions = {}): Promise<void> =>
+  request(() => api.delete(ENDPOINTS.session(id), options), ignoreBody);
+
+// ============================================================================
+// DOCUMENTS
+// ============================================================================
+
+export const listDocuments = (options: RequestOptions = {}): Promise<Document[]> =>
+  request(() => api.get(ENDPOINTS.documents, { ...options, timeout: API_TIMEOUT }), listOf(parseDocument));
+
+export const getDocument = (id: number, options: RequestOptions = {}): Promise<Document> =>
+  request(() => api.get(ENDPOINTS.document(id), options), parseDocument);
+
+// The original file, always fetched same-origin so cookie mode goes through the proxy
+export const getDocumentFile = (id: number, options: RequestOptions = {}): Promise<ArrayBuffer> =>
+  request(() => api.get(ENDPOINTS.documentFile(id), { ...options, responseType: 'arraybuffer' }), parseArrayBuffer);
+
+export const uploadDocument = (file: File, { signal, contentType, onProgress }: UploadRequestOptions = {}): Promise<Document> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('title', file.name);
+  formData.append('content_type', contentType || file.type);
+
+  return request(() => api.post(ENDPOINTS.documents, formData, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+    signal,
+    onUploadProgress: (progressEvent) => {
+      onProgress?.(Math.round((progressEvent.loaded * 100) / (progressEvent.total || 1)));
+    },
+  }), parseDocument);
+};
+
+// Also used to retry failed documents; omitted options keep the backend defaults
+export const analyzeDocument = (id: number, params: AnalysisOptions = {}, options: RequestOptions = {}): Promise<void> =>
+  request(() => api.post(ENDPOINTS.analyze(id), params, options), ignoreBody);
+
+export const cancelAnalysis = (id: number, options: RequestOptions = {}): Promise<void> =>
+  request(() => api.post(ENDPOINTS.cancelAnalysis(id), undefined, options), ignoreBody);
+
+export const getDocumentDiagnostics = (id: number, options: RequestOptions = {}): Promise<DocumentDiagnostics> =>
+  request(() => api.get(ENDPOINTS.diagnostics(id), options), parseDiagnostics);
+
+export const updateDocument = (id: number, payload: DocumentUpdateRequest, options: RequestOptions = {}): Promise<Document> =>
+  request(() => api.patch(ENDPOINTS.document(id), payload, options), parseDocument);
+
+// Permanent; documents are normally moved to the trash first
+export const deleteDocument = (id: number, options: RequestOptions = {}): Promise<void> =>
+  request(() => api.delete(ENDPOINTS.document(id), options), ignoreBody);
+
+// ============================================================================
+// TRASH
+// ============================================================================
+
+export const listTrash = (options: RequestOptions = {}): Promise<Document[]> =>
+  request(() => api.get(ENDPOINTS.trash, options), listOf(parseDocument));
+
+// Soft delete: the document leaves the library but can be restored until purged
+export const trashDocument = (id: number, options: RequestOptions = {}): Promise<void> =>
+  request(() => api.post(ENDPOINTS.trashDocument(id), undefined, options), ignoreBody);
+
+export const restoreDocument = (id: number, options: RequestOptions = {}): Promise<Document> =>
+  request(() => api.post(ENDPOINTS.restoreDocument(id), undefined, options), parseDocument);
+
+// ============================================================================
+// QUESTIONS
+// ============================================================================
+
+export const askDocument = (id: number, question: string, options: RequestOptions = {}): Promise<AskResponse> =>
+  request(() => api.post(ENDPOINTS.ask(id), { question }, options), parseAskResponse);
+
+export const globalAsk = (question: string, scope: GlobalAskScope = {}, options: RequestOptions = {}): Promise<AskResponse> =>
+  request(() => api.post(ENDPOINTS.globalAsk, { question, ...scope }, options), parseAskResponse);
+
+// Streaming variants of the two ask endpoints (see lib/stream.ts)
+const streamAnswer = async (
+  url: string,
+  body: { question: string } & GlobalAskScope,
+  handlers: StreamHandlers,
+  { signal }: RequestOptions
+): Promise<StreamResult> => {
+  try {
+    return await streamAsk(url, { ...body }, {
+      onToken: handlers.onToken,
+      onSources: (sources) => handlers.onSources?.(arrayOf(parseSource)(sources, '$.sources')),
+    }, signal);
+  } catch (err) {
+    throw toApiError(err);
+  }
+};
+
+export const streamDocumentAnswer = (id: number, question: string, handlers: StreamHandlers, options: RequestOptions = {}) =>
+  streamAnswer(ENDPOINTS.ask(id), { question }, handlers, options);
+
+export const streamGlobalAnswer = (question: string, scope: GlobalAskScope, handlers: StreamHandlers, options: RequestOptions = {}) =>
+  streamAnswer(ENDPOINTS.globalAsk, { question, ...scope }, handlers, options);
+
+// ============================================================================
+// FOLDERS
+// ============================================================================
+
+export const listFolders = (options: RequestOptions = {}): Promise<Folder[]> =>
+  request(() => api.get(ENDPOINTS.folders, options), listOf(parseFolder));
+
+export const createFolder = (payload: Required<FolderRequest>, options: RequestOptions = {}): Promise<Folder> =>
+  request(() => api.post(ENDPOINTS.folders, payload, options), parseFolder);
+
+export const updateFolder = (id: number, payload: FolderRequest, options: RequestOptions = {}): Promise<Folder> =>
+  request(() => api.patch(ENDPOINTS.folder(id), payload, options), parseFolder);
+
+// Subfolders go too; their documents become unfiled rather than being deleted
+export const deleteFolder = (id: number, options: RequestOptions = {}): Promise<void> =>
+  request(() => api.delete(ENDPOINTS.folder(id), options), ignoreBody);
+
+// ============================================================================
+// THREADS
+// ============================================================================
+
+export const listThreads = (scope: ThreadScope, options: RequestOptions = {}): Promise<Thread[]> =>
+  request(() => api.get(ENDPOINTS.threads, { ...options, params: { scope } }), listOf(parseThread));
+
+export const createThread = (payload: Pick<Thread, 'scope' | 'title' | 'messages'>, options: RequestOptions = {}): Promise<Thread> =>
+  request(() => api.post(ENDPOINTS.threads, payload, options), parseThread);
+
+export const updateThread = (id: string, changes: ThreadUpdate, options: RequestOptions = {}): Promise<Thread> =>
+  request(() => api.patch(ENDPOINTS.thread(id), changes, options), parseThread);
+
+export const deleteThread = (id: string, options: RequestOptions = {}): Promise<void> =>
+  request(() => api.delete(ENDPOINTS.thread(id), options), ignoreBody);
+
+// ============================================================================
+// CHUNKED UPLOADS
+// ============================================================================
+
+export const createUploadSession = (payload: UploadSessionRequest, options: RequestOptions = {}): Promise<UploadSession> =>
+  request(() => api.post(ENDPOINTS.uploads, payload, options), parseUploadSession);
+
+export const getUploadSession = (id: string, options: RequestOptions = {}): Promise<UploadSession> =>
+  request(() => api.get(ENDPOINTS.upload(id), options), parseUploadSession);
+
+// `checksum` is the chunk's hex SHA-256; the server rejects the chunk if it doesn't match
+export const uploadChunk = (
+  id: string,
+  index: number,
+  chunk: Blob,
+  checksum: string,
+  { signal, onProgress }: RequestOptions & { onProgress?: (loadedBytes: number) => void } = {}
+): Promise<void> =>
+  request(() => api.put(ENDPOINTS.uploadChunk(id, index), chunk, {
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'X-Chunk-Checksum': `sha256=${checksum}`,
+    },
+    signal,
+    onUploadProgress: (progressEvent) => onProgress?.(progressEvent.loaded),
+  }), ignoreBody);
+
+export const completeUpload = (id: string, title: string, options: RequestOptions = {}): Promise<void> =>
+  request(() => api.post(ENDPOINTS.completeUpload(id), { title }, options), ignoreBody);
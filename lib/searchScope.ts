@@ -0,0 +1,125 @@
+// lib/searchScope.ts
+// The scope of a global search: which documents a cross-document question
+// covers, and the chips that describe it above the input and on saved messages.
+import { STATUS_CONFIG } from './format';
+import type { Document, GlobalAskScope } from '../types';
+
+export const EMPTY_SCOPE: GlobalAskScope = {};
+
+// Searched when the scope names no status; other documents have no usable chunks
+export const DEFAULT_SEARCH_STATUSES: Document['status'][] = ['completed'];
+
+// "2024-05-01" in local time, the format of <input type="date">
+const localDay = (iso: string): string | null => {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return null;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// ✅ DROP FILTERS THAT DON'T NARROW ANYTHING
+// Requests and saved messages carry only what the user actually chose.
+// An empty `document_ids` is kept: it means "no documents", not "all".
+export const normalizeScope = (scope: GlobalAskScope): GlobalAskScope => {
+  const result: GlobalAskScope = {};
+  if (scope.document_ids) result.document_ids = scope.document_ids;
+  if (scope.tags?.length) result.tags = scope.tags;
+  if (scope.statuses?.length) result.statuses = scope.statuses;
+  if (scope.created_after) result.created_after = scope.created_after;
+  if (scope.created_before) result.created_before = scope.created_before;
+  return result;
+};
+
+export const isScopeEmpty = (scope: GlobalAskScope): boolean => Object.keys(normalizeScope(scope)).length === 0;
+
+export const matchesScope = (doc: Document, scope: GlobalAskScope): boolean => {
+  const statuses = scope.statuses?.length ? scope.statuses : DEFAULT_SEARCH_STATUSES;
+  if (!statuses.includes(doc.status)) return false;
+  if (scope.document_ids && !scope.document_ids.includes(doc.id)) return false;
+  if (scope.tags?.length && !scope.tags.some(tag => doc.tags?.includes(tag))) return false;
+  if (scope.created_after || scope.created_before) {
+    const day = doc.created_at ? localDay(doc.created_at) : null;
+    if (!day) return false;
+    if (scope.created_after && day < scope.created_after) return false;
+    if (scope.created_before && day > scope.created_before) return false;
+  }
+  return true;
+};
+
+// Keeps only documents in `ids`, e.g. the library collection being viewed
+export const restrictScope = (scope: GlobalAskScope, ids: number[]): GlobalAskScope => ({
+  ...scope,
+  document_ids: scope.document_ids ? scope.document_ids.filter(id => ids.includes(id)) : ids,
+});
+
+// ============================================================================
+// CHIPS
+// ============================================================================
+
+export interface ScopeChip {
+  key: string;
+  label: string;
+  // Full detail on hover, e.g. every picked document's title
+  title?: string;
+  // The scope without this chip's filter
+  remove: (scope: GlobalAskScope) => GlobalAskScope;
+}
+
+// Up to this many picked documents get a chip each; more share one chip
+const MAX_DOCUMENT_CHIPS = 3;
+
+const documentTitle = (documents: Document[], id: number): string =>
+  documents.find(d => d.id === id)?.title ?? `Document #${id}`;
+
+const without = <T>(values: T[] | undefined, value: T): T[] | undefined => {
+  const rest = values?.filter(v => v !== value);
+  return rest?.length ? rest : undefined;
+};
+
+export const scopeChips = (scope: GlobalAskScope, documents: Document[] = []): ScopeChip[] => {
+  const chips: ScopeChip[] = [];
+  const ids = scope.document_ids;
+
+  if (ids && ids.length <= MAX_DOCUMENT_CHIPS) {
+    ids.forEach(id => chips.push({
+      key: `doc:${id}`,
+      label: documentTitle(documents, id),
+      remove: s => ({ ...s, document_ids: without(s.document_ids, id) }),
+    }));
+    if (ids.length === 0) chips.push({ key: 'docs', label: 'No documents', remove: s => ({ ...s, document_ids: undefined }) });
+  } else if (ids) {
+    chips.push({
+      key: 'docs',
+      label: `${ids.length} documents`,
+      title: ids.map(id => documentTitle(documents, id)).join('\n'),
+      remove: s => ({ ...s, document_ids: undefined }),
+    });
+  }
+
+  scope.tags?.forEach(tag => chips.push({
+    key: `tag:${tag}`,
+    label: `#${tag}`,
+    remove: s => ({ ...s, tags: without(s.tags, tag) }),
+  }));
+
+  scope.statuses?.forEach(status => chips.push({
+    key: `status:${status}`,
+    label: STATUS_CONFIG[status].label,
+    remove: s => ({ ...s, statuses: without(s.statuses, status) }),
+  }));
+
+  if (scope.created_after) {
+    chips.push({ key: 'after', label: `From ${scope.created_after}`, remove: s => ({ ...s, created_after: undefined }) });
+  }
+  if (scope.created_before) {
+    chips.push({ key: 'before', label: `Until ${scope.created_before}`, remove: s => ({ ...s, created_before: undefined }) });
+  }
+
+  return chips;
+};
+
+// "Contract.pdf · #legal · From 2024-01-01", for saved messages and exports
+export const describeScope = (scope: GlobalAskScope, documents: Document[] = []): string => {
+  const chips = scopeChips(normalizeScope(scope), documents);
+  return chips.length ? chips.map(chip => chip.label).join(' · ') : 'All documents';
+};
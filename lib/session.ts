@@ -0,0 +1,200 @@
+// lib/session.ts
+// Token storage, single-flight refresh and cross-tab session sync.
+import axios from 'axios';
+import { BACKEND_URL, IS_COOKIE_MODE, SESSION_COOKIE } from './config';
+import { toApiError } from './errors';
+import { clearOfflineData } from './offline';
+import { clearQueryCache } from './queryCache';
+import { parseAccessToken } from './schemas';
+import type { AccessToken, TokenPair } from '../types';
+
+const ACCESS_TOKEN_KEY = 'access_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+// Every other key this app writes (threads, upload sessions, ...) uses this prefix
+const APP_STORAGE_PREFIX = 'smartdoc_';
+const CHANNEL_NAME = 'smartdoc-session';
+const REFRESH_LOCK_NAME = 'smartdoc-token-refresh';
+// Refresh this long before the access token's `exp`
+const PROACTIVE_REFRESH_MARGIN = 60 * 1000;
+
+type SessionEvent = { type: 'refreshed' } | { type: 'logout' };
+
+export const getAccessToken = () => localStorage.getItem(ACCESS_TOKEN_KEY);
+export const getRefreshToken = () => localStorage.getItem(REFRESH_TOKEN_KEY);
+
+// In cookie mode the JWTs are httpOnly; only a flag cookie is visible here
+export const hasSession = () => IS_COOKIE_MODE
+  ? document.cookie.split('; ').some(cookie => cookie.startsWith(`${SESSION_COOKIE}=`))
+  : !!getAccessToken();
+
+// Expiry of a JWT in ms, or null when it can't be decoded
+export const getTokenExpiry = (token: string): number | null => {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+// ============================================================================
+// CROSS-TAB CHANNEL
+// ============================================================================
+
+let channel: BroadcastChannel | null = null;
+const logoutListeners = new Set<() => void>();
+
+const getChannel = () => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (message: MessageEvent<SessionEvent>) => {
+      // Tokens live in shared storage, so other tabs only need to react
+      if (message.data.type === 'refreshed') scheduleProactiveRefresh();
+      if (message.data.type === 'logout') {
+        cancelProactiveRefresh();
+        logoutListeners.forEach(listener => listener());
+      }
+    };
+  }
+  return channel;
+};
+
+const broadcast = (event: SessionEvent) => getChannel()?.postMessage(event);
+
+// Called when this tab or another one ends the session
+export const onSessionEnd = (listener: () => void) => {
+  getChannel();
+  logoutListeners.add(listener);
+  return () => {
+    logoutListeners.delete(listener);
+  };
+};
+
+// ============================================================================
+// TOKEN STORAGE
+// ============================================================================
+
+// Token mode mirrors the session into a flag cookie so proxy.ts can see it.
+// It holds no credentials and lives as long as the refresh token.
+const setSessionFlag = (refresh: string) => {
+  const expiry = getTokenExpiry(refresh);
+  const maxAge = expiry ? `; Max-Age=${Math.max(Math.floor((expiry - Date.now()) / 1000), 0)}` : '';
+  document.cookie = `${SESSION_COOKIE}=1; path=/; SameSite=Lax${maxAge}`;
+};
+
+// Dropping a stale flag also stops proxy.ts from bouncing between login and the app
+export const clearSessionFlag = () => {
+  document.cookie = `${SESSION_COOKIE}=; Max-Age=0; path=/`;
+};
+
+export const saveTokens = (tokens: TokenPair | AccessToken) => {
+  localStorage.setItem(ACCESS_TOKEN_KEY, tokens.access);
+  if (tokens.refresh) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refresh);
+    setSessionFlag(tokens.refresh);
+  }
+  scheduleProactiveRefresh();
+  broadcast({ type: 'refreshed' });
+};
+
+// Removes only this app's keys so unrelated data on the origin survives
+const clearAppStorage = () => {
+  Object.keys(localStorage)
+    .filter(key => key === ACCESS_TOKEN_KEY || key === REFRESH_TOKEN_KEY || key.startsWith(APP_STORAGE_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+  clearSessionFlag();
+  // Cached library, threads and queued actions belong to the user leaving
+  clearOfflineData().catch(err => console.error("Offline data clear error:", err));
+  clearQueryCache();
+};
+
+export const clearSession = () => {
+  cancelProactiveRefresh();
+  clearAppStorage();
+  broadcast({ type: 'logout' });
+  logoutListeners.forEach(listener => listener());
+};
+
+// ============================================================================
+// SINGLE-FLIGHT REFRESH
+// ============================================================================
+
+// Bare axios call so the 401 interceptor never recurses into itself
+export const refreshToken = async (refresh: string, options: { signal?: AbortSignal } = {}): Promise<AccessToken> => {
+  try {
+    const res = await axios.post(`${BACKEND_URL}/token/refresh/`, { refresh }, options);
+    return parseAccessToken(res.data);
+  } catch (err) {
+    throw toApiError(err);
+  }
+};
+
+let refreshPromise: Promise<string> | null = null;
+
+const performRefresh = async (): Promise<string> => {
+  const staleAccess = getAccessToken();
+  const run = async () => {
+    // Another tab may have refreshed while we waited for the lock
+    const current = getAccessToken();
+    if (current && current !== staleAccess) return current;
+
+    const refresh = getRefreshToken();
+    if (!refresh) throw toApiError(new Error('No refresh token'));
+    const tokens = await refreshToken(refresh);
+    saveTokens(tokens);
+    return tokens.access;
+  };
+
+  // Web Locks serialize refreshes across tabs where supported
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(REFRESH_LOCK_NAME, run);
+  }
+  return run();
+};
+
+// ✅ ONE REFRESH IN FLIGHT; CONCURRENT CALLERS SHARE ITS RESULT
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = performRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Resolves once any in-flight refresh settles, so new requests don't race it
+export const waitForRefresh = async () => {
+  if (!refreshPromise) return;
+  try {
+    await refreshPromise;
+  } catch {
+    // The request will fail on its own and take the 401 path
+  }
+};
+
+// ============================================================================
+// PROACTIVE REFRESH
+// ============================================================================
+
+let proactiveTimer: ReturnType<typeof setTimeout> | undefined;
+
+function cancelProactiveRefresh() {
+  clearTimeout(proactiveTimer);
+  proactiveTimer = undefined;
+}
+
+// Refresh shortly before the access token expires instead of waiting for a 401
+export function scheduleProactiveRefresh() {
+  cancelProactiveRefresh();
+  const access = getAccessToken();
+  const expiry = access && getTokenExpiry(access);
+  if (!expiry || !getRefreshToken()) return;
+
+  const delay = Math.max(expiry - Date.now() - PROACTIVE_REFRESH_MARGIN, 0);
+  proactiveTimer = setTimeout(() => {
+    refreshAccessToken().catch(err => {
+      // A real request will hit the 401 path and end the session if needed
+      console.error("Proactive refresh failed:", err);
+    });
+  }, delay);
+}
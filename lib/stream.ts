@@ -0,0 +1,167 @@
+// lib/stream.ts
+import api, { API_URL } from './api';
+import { getAccessToken } from './session';
+import type { Source } from '../types';
+
+export interface StreamHandlers {
+  onToken: (token: string) => void;
+  onSources?: (sources: Source[]) => void;
+}
+
+export interface StreamResult {
+  answer: string;
+  sources?: Source[];
+  streamed: boolean;
+}
+
+interface StreamFrame {
+  token?: string;
+  delta?: string;
+  answer?: string;
+  sources?: Source[];
+  error?: string;
+  done?: boolean;
+}
+
+// Error raised when the backend rejects a streaming request. Mirrors the
+// axios error shape (`err.response.data`) so callers can handle both alike.
+export class StreamError extends Error {
+  response: { status: number; data: unknown };
+
+  constructor(status: number, data: unknown) {
+    super(`Stream request failed with status ${status}`);
+    this.name = 'StreamError';
+    this.response = { status, data };
+  }
+}
+
+const parseFrame = (data: string): StreamFrame => {
+  try {
+    const parsed: unknown = JSON.parse(data);
+    if (typeof parsed === 'string') return { token: parsed };
+    // Tokens such as `42` or `true` are valid JSON too, but only objects are frames
+    if (parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed as StreamFrame;
+    return { token: data };
+  } catch {
+    // Plain-text payloads are treated as a raw token
+    return { token: data };
+  }
+};
+
+// ✅ POST A QUESTION AND EMIT THE ANSWER TOKEN-BY-TOKEN
+// Supports SSE (`text/event-stream`), plain chunked text, and falls back to
+// the one-shot JSON `{ answer, sources }` response when the backend doesn't stream.
+export const streamAsk = async (
+  url: string,
+  body: Record<string, unknown>,
+  handlers: StreamHandlers,
+  signal?: AbortSignal
+): Promise<StreamResult> => {
+  const token = getAccessToken();
+
+  const response = await fetch(`${API_URL}${url}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream, application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+
+  // Expired token - let the axios client refresh it and answer in one shot
+  if (response.status === 401) {
+    const res = await api.post(url, body, { signal });
+    handlers.onToken(res.data.answer);
+    if (res.data.sources) handlers.onSources?.(res.data.sources);
+    return { answer: res.data.answer, sources: res.data.sources, streamed: false };
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+
+  if (!response.ok) {
+    const data = contentType.includes('application/json')
+      ? await response.json().catch(() => null)
+      : await response.text().catch(() => null);
+    throw new StreamError(response.status, data);
+  }
+
+  // Backend doesn't stream - one-shot JSON response
+  if (contentType.includes('application/json') || !response.body) {
+    const data = await response.json();
+    handlers.onToken(data.answer);
+    if (data.sources) handlers.onSources?.(data.sources);
+    return { answer: data.answer, sources: data.sources, streamed: false };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const isSSE = contentType.includes('text/event-stream');
+
+  let answer = '';
+  let sources: Source[] | undefined;
+  let buffer = '';
+
+  const emit = (text: string) => {
+    if (!text) return;
+    answer += text;
+    handlers.onToken(text);
+  };
+
+  const handleEvent = (event: string, data: string) => {
+    if (data === '[DONE]') return;
+    const frame = parseFrame(data);
+
+    if (event === 'error' || frame.error) {
+      throw new StreamError(response.status, { error: frame.error || data });
+    }
+    if (event === 'sources' || frame.sources) {
+      sources = frame.sources ?? (JSON.parse(data) as Source[]);
+      handlers.onSources?.(sources);
+      // A bare `sources` array isn't a frame and carries no token
+      if (event === 'sources') return;
+    }
+    emit(frame.token ?? frame.delta ?? '');
+    // Some backends resend the full answer in the final frame
+    if (frame.done && frame.answer && !answer) emit(frame.answer);
+  };
+
+  // SSE frames are separated by a blank line; each line is `field: value`
+  const flushEvents = (final: boolean) => {
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = final ? '' : blocks.pop() || '';
+
+    for (const block of blocks) {
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of block.split(/\r?\n/)) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+      if (dataLines.length > 0) handleEvent(event, dataLines.join('\n'));
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const chunk = decoder.decode(value, { stream: true });
+
+    if (isSSE) {
+      buffer += chunk;
+      flushEvents(false);
+    } else {
+      emit(chunk);
+    }
+  }
+
+  if (isSSE) {
+    buffer += decoder.decode();
+    flushEvents(true);
+  } else {
+    emit(decoder.decode());
+  }
+
+  return { answer, sources, streamed: true };
+};
@@ -0,0 +1,123 @@
+// lib/threads.ts
+import {
+  createThread as createServerThread,
+  deleteThread as deleteServerThread,
+  listThreads as listServerThreads,
+  updateThread as updateServerThread,
+  type RequestOptions,
+} from './sdk';
+import { toApiError } from './errors';
+import { withOfflineCache } from './offline';
+import type { Message, Thread, ThreadScope, ThreadUpdate } from '../types';
+
+export type { Thread, ThreadScope, ThreadUpdate } from '../types';
+
+const STORAGE_KEY = 'smartdoc_threads';
+
+export const documentScope = (documentId: number): ThreadScope => `document:${documentId}`;
+
+// Derive a readable thread name from the first question asked in it
+export const titleFromMessages = (messages: Message[]): string => {
+  const first = messages.find(m => m.role === 'user')?.content.trim() || 'New conversation';
+  return first.length > 48 ? `${first.slice(0, 47)}…` : first;
+};
+
+const generateThreadId = (): string => {
+  return `thread_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+};
+
+// Drop transient UI flags before anything is persisted
+export const serializeMessages = (messages: Message[]): Message[] =>
+  messages.map(message => {
+    const copy = { ...message };
+    delete copy.isStreaming;
+    return copy;
+  });
+
+// ============================================================================
+// LOCAL PERSISTENCE (used when the backend has no thread endpoint)
+// ============================================================================
+
+const readLocal = (): Thread[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeLocal = (threads: Thread[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(threads));
+};
+
+const localStore = {
+  list: async (scope: ThreadScope) =>
+    readLocal()
+      .filter(t => t.scope === scope)
+      .sort((a, b) => b.updated_at - a.updated_at),
+
+  create: async (scope: ThreadScope, title: string, messages: Message[]) => {
+    const now = Date.now();
+    const thread: Thread = { id: generateThreadId(), scope, title, messages, created_at: now, updated_at: now };
+    writeLocal([...readLocal(), thread]);
+    return thread;
+  },
+
+  update: async (id: string, changes: ThreadUpdate) => {
+    const threads = readLocal();
+    const existing = threads.find(t => t.id === id);
+    if (!existing) throw new Error(`Thread ${id} not found`);
+    const updated = { ...existing, ...changes, updated_at: Date.now() };
+    writeLocal(threads.map(t => (t.id === id ? updated : t)));
+    return updated;
+  },
+
+  remove: async (id: string) => {
+    writeLocal(readLocal().filter(t => t.id !== id));
+  },
+};
+
+// ============================================================================
+// SERVER PERSISTENCE
+// ============================================================================
+
+const serverStore = {
+  list: (scope: ThreadScope, options?: RequestOptions) => listServerThreads(scope, options),
+  create: (scope: ThreadScope, title: string, messages: Message[]) => createServerThread({ scope, title, messages }),
+  update: (id: string, changes: ThreadUpdate) => updateServerThread(id, changes),
+  remove: (id: string) => deleteServerThread(id),
+};
+
+// null until the first request tells us whether the backend supports threads
+let serverAvailable: boolean | null = null;
+
+const withStore = async <T>(run: (store: typeof serverStore) => Promise<T>): Promise<T> => {
+  if (serverAvailable === false) return run(localStore);
+  try {
+    const result = await run(serverStore);
+    serverAvailable = true;
+    return result;
+  } catch (err: unknown) {
+    const { status } = toApiError(err);
+    if (serverAvailable === null && (status === 404 || status === 405 || status === 501)) {
+      serverAvailable = false;
+      return run(localStore);
+    }
+    throw err;
+  }
+};
+
+// ✅ THREAD CLIENT - server-synced, falls back to localStorage
+// Listing also keeps a copy in IndexedDB so past threads stay readable offline.
+export const listThreads = async (scope: ThreadScope, options: RequestOptions = {}) =>
+  (await withOfflineCache(`threads:${scope}`, () => withStore(store => store.list(scope, options)))).value;
+
+export const createThread = (scope: ThreadScope, messages: Message[] = [], title = titleFromMessages(messages)) =>
+  withStore(store => store.create(scope, title, serializeMessages(messages)));
+
+export const updateThread = (id: string, changes: ThreadUpdate) =>
+  withStore(store =>
+    store.update(id, changes.messages ? { ...changes, messages: serializeMessages(changes.messages) } : changes)
+  );
+
+export const deleteThread = (id: string) => withStore(store => store.remove(id));
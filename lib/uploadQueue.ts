@@ -0,0 +1,174 @@
+// lib/uploadQueue.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { errorMessage } from './errors';
+import type { UploadItem } from '../types';
+
+export interface UploadOptions {
+  signal: AbortSignal;
+  onProgress: (percent: number) => void;
+}
+
+export type UploadFn = (file: File, options: UploadOptions) => Promise<void>;
+
+interface UploadQueueOptions {
+  upload: UploadFn;
+  // Returns an error message when a file must not be uploaded
+  validate: (file: File) => Promise<string | null>;
+  concurrency: number;
+  onUploaded?: (item: UploadItem) => void;
+}
+
+const generateUploadId = (): string => {
+  return `upload_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+};
+
+// ============================================================================
+// DROPPED FOLDER TRAVERSAL
+// ============================================================================
+
+const readEntry = async (entry: FileSystemEntry, path: string): Promise<{ file: File; path: string }[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ file, path: `${path}${file.name}` }];
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries returns results in batches until an empty batch
+    while (true) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      children.push(...batch);
+    }
+    const nested = await Promise.all(children.map(child => readEntry(child, `${path}${entry.name}/`)));
+    return nested.flat();
+  }
+  return [];
+};
+
+// ✅ COLLECT EVERY FILE FROM A DROP, DESCENDING INTO FOLDERS
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<{ file: File; path: string }[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  // Browsers without the entries API only expose top-level files
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map(file => ({ file, path: file.name }));
+  }
+  const nested = await Promise.all(entries.map(entry => readEntry(entry, '')));
+  return nested.flat();
+};
+
+// ============================================================================
+// QUEUE HOOK
+// ============================================================================
+
+// Per-file upload queue with a concurrency limit. Items live in a ref so the
+// scheduler always sees the latest state; `commit` publishes a snapshot to React.
+export const useUploadQueue = ({ upload, validate, concurrency, onUploaded }: UploadQueueOptions) => {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const itemsRef = useRef<UploadItem[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const optionsRef = useRef({ upload, onUploaded, concurrency });
+
+  useEffect(() => {
+    optionsRef.current = { upload, onUploaded, concurrency };
+  }, [upload, onUploaded, concurrency]);
+
+  const commit = useCallback(() => setItems([...itemsRef.current]), []);
+
+  const patch = useCallback((id: string, changes: Partial<UploadItem>) => {
+    itemsRef.current = itemsRef.current.map(item => (item.id === id ? { ...item, ...changes } : item));
+    commit();
+  }, [commit]);
+
+  const pump = useCallback(() => {
+    const startNext = () => {
+      const { upload, onUploaded, concurrency } = optionsRef.current;
+      const active = itemsRef.current.filter(item => item.status === 'uploading').length;
+      const next = itemsRef.current.filter(item => item.status === 'queued').slice(0, Math.max(concurrency - active, 0));
+
+      next.forEach(item => {
+        const controller = new AbortController();
+        controllersRef.current.set(item.id, controller);
+        patch(item.id, { status: 'uploading', percent: 0, error: undefined });
+
+        upload(item.file, {
+          signal: controller.signal,
+          onProgress: percent => patch(item.id, { percent }),
+        })
+          .then(() => {
+            patch(item.id, { status: 'completed', percent: 100 });
+            const done = itemsRef.current.find(i => i.id === item.id);
+            if (done) onUploaded?.(done);
+          })
+          .catch((err: unknown) => {
+            // Pause and cancel abort the request themselves and set the status
+            if (controller.signal.aborted) return;
+            console.error("Upload error:", err);
+            patch(item.id, { status: 'failed', error: errorMessage(err, "Upload failed") });
+          })
+          .finally(() => {
+            if (controllersRef.current.get(item.id) === controller) {
+              controllersRef.current.delete(item.id);
+            }
+            startNext();
+          });
+      });
+    };
+    startNext();
+  }, [patch]);
+
+  const addFiles = useCallback(async (files: { file: File; path?: string }[]) => {
+    const added: UploadItem[] = await Promise.all(files.map(async ({ file, path }) => {
+      const error = await validate(file);
+      return {
+        id: generateUploadId(),
+        file,
+        path: path || file.name,
+        status: error ? 'rejected' : 'queued',
+        percent: 0,
+        error: error ?? undefined,
+      } as UploadItem;
+    }));
+    itemsRef.current = [...itemsRef.current, ...added];
+    commit();
+    pump();
+  }, [validate, commit, pump]);
+
+  const abort = (id: string) => controllersRef.current.get(id)?.abort();
+
+  const pause = useCallback((id: string) => {
+    abort(id);
+    patch(id, { status: 'paused' });
+    pump();
+  }, [patch, pump]);
+
+  const cancel = useCallback((id: string) => {
+    abort(id);
+    patch(id, { status: 'cancelled' });
+    pump();
+  }, [patch, pump]);
+
+  // Resuming a paused file and retrying a failed one both put it back in line
+  const retry = useCallback((id: string) => {
+    patch(id, { status: 'queued', error: undefined });
+    pump();
+  }, [patch, pump]);
+
+  const clearFinished = useCallback(() => {
+    itemsRef.current = itemsRef.current.filter(item =>
+      item.status === 'queued' || item.status === 'uploading' || item.status === 'paused'
+    );
+    commit();
+  }, [commit]);
+
+  // Abort everything still in flight when the dashboard unmounts
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  return { items, addFiles, pause, resume: retry, retry, cancel, clearFinished };
+};
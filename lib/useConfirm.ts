@@ -0,0 +1,35 @@
+// lib/useConfirm.ts
+import { useCallback, useRef, useState } from 'react';
+
+export interface ConfirmOptions {
+  title: string;
+  message: string;
+  confirmLabel?: string;
+  // "danger" styles the confirm button red, for destructive actions
+  tone?: 'default' | 'danger';
+}
+
+// ✅ PROMISE-BASED REPLACEMENT FOR window.confirm()
+// Render <ConfirmDialog request={request} onSettle={settle} /> next to the caller,
+// then `if (!(await confirm({ ... }))) return;`
+export const useConfirm = () => {
+  const [request, setRequest] = useState<ConfirmOptions | null>(null);
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  const confirm = useCallback((options: ConfirmOptions) => {
+    // A newer question cancels one still open
+    resolveRef.current?.(false);
+    setRequest(options);
+    return new Promise<boolean>(resolve => {
+      resolveRef.current = resolve;
+    });
+  }, []);
+
+  const settle = useCallback((confirmed: boolean) => {
+    resolveRef.current?.(confirmed);
+    resolveRef.current = null;
+    setRequest(null);
+  }, []);
+
+  return { request, confirm, settle };
+};
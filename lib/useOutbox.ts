@@ -0,0 +1,88 @@
+// lib/useOutbox.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  addToOutbox,
+  isOfflineError,
+  listOutbox,
+  removeFromOutbox,
+  useOnlineStatus,
+  type OutboxAction,
+  type OutboxEntry,
+} from './offline';
+
+// While online with entries left (e.g. the server was unreachable), try again this often
+const RETRY_INTERVAL = 30 * 1000;
+
+interface OutboxOptions {
+  enabled: boolean;
+  // Sends one queued action; throwing an offline error keeps it for later
+  replay: (entry: OutboxEntry) => Promise<void>;
+  // The server rejected the action; it is dropped from the outbox
+  onFailed?: (entry: OutboxEntry, err: unknown) => void;
+  // Called after a replay pass that sent at least one action
+  onFlushed?: () => void;
+}
+
+// Persistent queue of actions taken while offline, replayed in order on reconnect
+export const useOutbox = ({ enabled, replay, onFailed, onFlushed }: OutboxOptions) => {
+  const isOnline = useOnlineStatus();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const flushingRef = useRef(false);
+
+  // Latest callbacks, so a long replay pass doesn't hold on to stale ones
+  const optionsRef = useRef({ replay, onFailed, onFlushed });
+  useEffect(() => {
+    optionsRef.current = { replay, onFailed, onFlushed };
+  }, [replay, onFailed, onFlushed]);
+
+  // Pick up what earlier sessions left behind
+  useEffect(() => {
+    if (!enabled) return;
+    listOutbox()
+      .then(setEntries)
+      .catch(err => console.error("Outbox load error:", err));
+  }, [enabled]);
+
+  const enqueue = useCallback(async (action: OutboxAction) => {
+    const entry = await addToOutbox(action);
+    setEntries(prev => [...prev, entry]);
+    return entry;
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+    let sent = 0;
+    try {
+      for (const entry of await listOutbox()) {
+        try {
+          await optionsRef.current.replay(entry);
+          sent++;
+        } catch (err) {
+          // Still offline: stop here so later actions keep their order
+          if (isOfflineError(err)) break;
+          console.error("Outbox replay error:", err);
+          optionsRef.current.onFailed?.(entry, err);
+        }
+        await removeFromOutbox(entry.id);
+        setEntries(prev => prev.filter(e => e.id !== entry.id));
+      }
+    } catch (err) {
+      console.error("Outbox error:", err);
+    } finally {
+      flushingRef.current = false;
+      if (sent > 0) optionsRef.current.onFlushed?.();
+    }
+  }, []);
+
+  const hasEntries = entries.length > 0;
+
+  useEffect(() => {
+    if (!enabled || !isOnline || !hasEntries) return;
+    flush();
+    const interval = setInterval(flush, RETRY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [enabled, isOnline, hasEntries, flush]);
+
+  return { isOnline, entries, enqueue };
+};
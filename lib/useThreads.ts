@@ -0,0 +1,159 @@
+// lib/useThreads.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import type { Message } from '../types';
+import {
+  createThread,
+  deleteThread,
+  listThreads,
+  titleFromMessages,
+  updateThread,
+  type Thread,
+  type ThreadScope,
+} from './threads';
+import { runBulk } from './library';
+
+// Keeps a chat's `messages` state in sync with the stored threads of a scope.
+// Passing a null scope (e.g. no document open) detaches the chat.
+export const useThreads = (
+  scope: ThreadScope | null,
+  messages: Message[],
+  setMessages: Dispatch<SetStateAction<Message[]>>
+) => {
+  const [threads, setThreads] = useState<Thread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [isLoadingThreads, setIsLoadingThreads] = useState(scope !== null);
+  const [loadedScope, setLoadedScope] = useState(scope);
+
+  // Serialized messages last loaded from / written to storage, to skip no-op saves
+  const lastSavedRef = useRef<string>('[]');
+  // The scope whose first thread is being created, if any
+  const creatingRef = useRef<ThreadScope | null>(null);
+  // For saves that resolve after the user has moved on to another scope
+  const scopeRef = useRef(scope);
+
+  // Switching scope detaches the previous chat right away, before its threads load
+  if (scope !== loadedScope) {
+    setLoadedScope(scope);
+    setThreads([]);
+    setActiveThreadId(null);
+    setMessages([]);
+    setIsLoadingThreads(scope !== null);
+  }
+
+  const openThread = useCallback((thread: Thread | null) => {
+    const next = thread?.messages ?? [];
+    lastSavedRef.current = JSON.stringify(next);
+    setActiveThreadId(thread?.id ?? null);
+    setMessages(next);
+  }, [setMessages]);
+
+  useEffect(() => {
+    scopeRef.current = scope;
+    creatingRef.current = null;
+  }, [scope]);
+
+  // Load the scope's threads and resume the most recent one
+  useEffect(() => {
+    if (!scope) return;
+    const controller = new AbortController();
+
+    listThreads(scope, { signal: controller.signal })
+      .then(list => {
+        if (controller.signal.aborted) return;
+        setThreads(list);
+        openThread(list[0] ?? null);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) console.error("Thread load error:", err);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoadingThreads(false);
+      });
+
+    return () => controller.abort();
+  }, [scope, openThread]);
+
+  // Persist finished exchanges; the first question creates the thread
+  useEffect(() => {
+    if (!scope || messages.length === 0 || messages.some(m => m.isStreaming)) return;
+    const serialized = JSON.stringify(messages);
+    if (serialized === lastSavedRef.current) return;
+
+    if (activeThreadId) {
+      lastSavedRef.current = serialized;
+      updateThread(activeThreadId, { messages })
+        .then(saved => {
+          if (scopeRef.current !== scope) return;
+          setThreads(prev => [saved, ...prev.filter(t => t.id !== saved.id)]);
+        })
+        .catch(err => console.error("Thread save error:", err));
+    } else if (creatingRef.current !== scope) {
+      creatingRef.current = scope;
+      lastSavedRef.current = serialized;
+      createThread(scope, messages, titleFromMessages(messages))
+        .then(created => {
+          // The thread is saved either way; it just isn't this chat's any more
+          if (scopeRef.current !== scope) return;
+          setThreads(prev => [created, ...prev]);
+          setActiveThreadId(created.id);
+        })
+        .catch(err => console.error("Thread create error:", err))
+        .finally(() => {
+          if (creatingRef.current === scope) creatingRef.current = null;
+        });
+    }
+  }, [scope, messages, activeThreadId]);
+
+  const selectThread = useCallback((id: string) => {
+    openThread(threads.find(t => t.id === id) ?? null);
+  }, [threads, openThread]);
+
+  const startNewThread = useCallback(() => openThread(null), [openThread]);
+
+  // Re-reads the list after a thread was changed elsewhere, e.g. by a queued question
+  const reloadThreads = useCallback(async () => {
+    if (!scope) return;
+    setThreads(await listThreads(scope));
+  }, [scope]);
+
+  const renameThread = useCallback(async (id: string, title: string) => {
+    const saved = await updateThread(id, { title });
+    setThreads(prev => prev.map(t => (t.id === id ? saved : t)));
+  }, []);
+
+  // Saves a conversation from elsewhere (e.g. a JSON export) as a new thread and opens it
+  const importThread = useCallback(async (imported: Message[], title: string) => {
+    if (!scope) return;
+    const created = await createThread(scope, imported, title);
+    setThreads(prev => [created, ...prev]);
+    openThread(created);
+  }, [scope, openThread]);
+
+  const removeThread = useCallback(async (id: string) => {
+    await deleteThread(id);
+    setThreads(prev => prev.filter(t => t.id !== id));
+    if (id === activeThreadId) openThread(null);
+  }, [activeThreadId, openThread]);
+
+  // Deletes every thread of the scope and starts over; threads that fail stay listed
+  const clearThreads = useCallback(async (onProgress?: (done: number) => void) => {
+    const result = await runBulk(threads.map(t => t.id), deleteThread, onProgress);
+    setThreads(prev => prev.filter(t => !result.succeeded.includes(t.id)));
+    if (!activeThreadId || result.succeeded.includes(activeThreadId)) openThread(null);
+    return result;
+  }, [threads, activeThreadId, openThread]);
+
+  return {
+    threads,
+    activeThreadId,
+    isLoadingThreads,
+    selectThread,
+    startNewThread,
+    renameThread,
+    removeThread,
+    importThread,
+    reloadThreads,
+    clearThreads,
+  };
+};
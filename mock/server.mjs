@@ -0,0 +1,290 @@
+// mock/server.mjs
+// Minimal in-memory stand-in for the SmartDoc backend's auth endpoints, enough
+// to exercise signup, login, email verification, password reset and the
+// account page locally.
+// Emails aren't sent: the links they would contain are printed to the console.
+//
+//   npm run mock            (listens on http://localhost:8000/api)
+import { createServer } from 'node:http';
+import { randomBytes } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_PORT || 8000);
+const FRONTEND_URL = process.env.MOCK_FRONTEND_URL || 'http://localhost:3000';
+const ACCESS_LIFETIME = 5 * 60;
+const REFRESH_LIFETIME = 24 * 60 * 60;
+const MIN_PASSWORD_LENGTH = 8;
+
+const users = [
+  { id: 1, username: 'demo', email: 'demo@example.com', password: 'password123', is_active: true },
+];
+// One-time tokens for activation and reset links: token -> { userId, purpose }
+const linkTokens = new Map();
+const revokedRefreshTokens = new Set();
+// One per login; tokens carry the session id (`sid`) so revoking it signs that device out
+const sessions = [];
+let nextSessionId = 1;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const base64url = (value) => Buffer.from(value).toString('base64url');
+
+// Unsigned JWT-shaped token; the frontend only ever decodes `exp`
+const issueToken = (session, type, lifetime) => [
+  base64url(JSON.stringify({ alg: 'none', typ: 'JWT' })),
+  base64url(JSON.stringify({
+    token_type: type,
+    user_id: session.userId,
+    sid: session.id,
+    jti: randomBytes(8).toString('hex'),
+    exp: Math.floor(Date.now() / 1000) + lifetime,
+  })),
+  'mock',
+].join('.');
+
+// The live session a token belongs to, or null
+const readToken = (token, type) => {
+  try {
+    const payload = JSON.parse(Buffer.from(String(token).split('.')[1], 'base64url').toString());
+    if (payload.token_type !== type || payload.exp * 1000 < Date.now()) return null;
+    return sessions.find(session => session.id === payload.sid) || null;
+  } catch {
+    return null;
+  }
+};
+
+const startSession = (user, req) => {
+  const now = new Date().toISOString();
+  const session = {
+    id: nextSessionId++,
+    userId: user.id,
+    user_agent: req.headers['user-agent'],
+    ip_address: req.socket.remoteAddress,
+    created_at: now,
+    last_active: now,
+  };
+  sessions.push(session);
+  return session;
+};
+
+const endSessions = (predicate) => {
+  for (let i = sessions.length - 1; i >= 0; i--) {
+    if (predicate(sessions[i])) sessions.splice(i, 1);
+  }
+};
+
+const issuePair = (session) => ({
+  access: issueToken(session, 'access', ACCESS_LIFETIME),
+  refresh: issueToken(session, 'refresh', REFRESH_LIFETIME),
+});
+
+// Prints the link the backend would have emailed
+const sendLink = (user, purpose, route) => {
+  const token = randomBytes(16).toString('hex');
+  linkTokens.set(token, { userId: user.id, purpose });
+  const uid = base64url(String(user.id));
+  console.log(`\n📧 ${purpose} email for ${user.email}:\n   ${FRONTEND_URL}${route}?uid=${uid}&token=${token}\n`);
+};
+
+// Returns the user for a valid uid/token pair and consumes the token
+const consumeLinkToken = ({ uid, token }, purpose) => {
+  const entry = linkTokens.get(token);
+  const userId = Number(Buffer.from(String(uid || ''), 'base64url').toString());
+  const user = users.find(candidate => candidate.id === userId);
+  if (!user) return { error: { uid: ['Invalid user id or user doesn\'t exist.'] } };
+  if (!entry || entry.purpose !== purpose || entry.userId !== userId) {
+    return { error: { token: ['Invalid token for given user.'] } };
+  }
+  linkTokens.delete(token);
+  return { user };
+};
+
+const findByEmail = (email) => users.find(user => user.email.toLowerCase() === String(email || '').toLowerCase());
+
+const validatePassword = (password) =>
+  String(password || '').length < MIN_PASSWORD_LENGTH
+    ? [`This password is too short. It must contain at least ${MIN_PASSWORD_LENGTH} characters.`]
+    : null;
+
+const publicUser = ({ id, username, email }) => ({ id, username, email });
+
+const unauthorized = [401, { detail: 'Authentication credentials were not provided.' }];
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+const routes = {
+  'POST /api/token/': ({ body, req }) => {
+    const user = findByEmail(body.email);
+    if (!user || user.password !== body.password || !user.is_active) {
+      return [401, { detail: 'No active account found with the given credentials' }];
+    }
+    return [200, issuePair(startSession(user, req))];
+  },
+
+  'POST /api/token/refresh/': ({ body }) => {
+    const session = !revokedRefreshTokens.has(body.refresh) && readToken(body.refresh, 'refresh');
+    if (!session) return [401, { detail: 'Token is invalid or expired', code: 'token_not_valid' }];
+    return [200, { access: issueToken(session, 'access', ACCESS_LIFETIME) }];
+  },
+
+  'POST /api/token/blacklist/': ({ body }) => {
+    revokedRefreshTokens.add(body.refresh);
+    const session = readToken(body.refresh, 'refresh');
+    if (session) endSessions(candidate => candidate.id === session.id);
+    return [200, {}];
+  },
+
+  'POST /api/users/': ({ body }) => {
+    const errors = {};
+    if (!body.username) errors.username = ['This field is required.'];
+    else if (users.some(user => user.username === body.username)) errors.username = ['A user with that username already exists.'];
+    if (!body.email) errors.email = ['This field is required.'];
+    else if (findByEmail(body.email)) errors.email = ['user with this email already exists.'];
+    const passwordErrors = validatePassword(body.password);
+    if (passwordErrors) errors.password = passwordErrors;
+    if (Object.keys(errors).length > 0) return [400, errors];
+
+    const user = { id: users.length + 1, username: body.username, email: body.email, password: body.password, is_active: false };
+    users.push(user);
+    sendLink(user, 'Activation', '/verify-email');
+    return [201, publicUser(user)];
+  },
+
+  'POST /api/users/activation/': ({ body }) => {
+    const { user, error } = consumeLinkToken(body, 'Activation');
+    if (error) return [400, error];
+    if (user.is_active) return [403, { detail: 'Stale token for given user.' }];
+    user.is_active = true;
+    return [204];
+  },
+
+  'POST /api/users/resend_activation/': ({ body }) => {
+    const user = findByEmail(body.email);
+    if (user && !user.is_active) sendLink(user, 'Activation', '/verify-email');
+    return [204];
+  },
+
+  'POST /api/users/reset_password/': ({ body }) => {
+    const user = findByEmail(body.email);
+    if (user) sendLink(user, 'Password reset', '/reset-password');
+    return [204];
+  },
+
+  'POST /api/users/reset_password_confirm/': ({ body }) => {
+    const passwordErrors = validatePassword(body.new_password);
+    if (passwordErrors) return [400, { new_password: passwordErrors }];
+    const { user, error } = consumeLinkToken(body, 'Password reset');
+    if (error) return [400, error];
+    user.password = body.new_password;
+    return [204];
+  },
+
+  'GET /api/users/me/': ({ user }) => (user ? [200, publicUser(user)] : unauthorized),
+
+  'PATCH /api/users/me/': ({ body, user }) => {
+    if (!user) return unauthorized;
+    if (body.username && users.some(other => other !== user && other.username === body.username)) {
+      return [400, { username: ['A user with that username already exists.'] }];
+    }
+    const existing = body.email && findByEmail(body.email);
+    if (existing && existing !== user) return [400, { email: ['user with this email already exists.'] }];
+    Object.assign(user, body.username ? { username: body.username } : {}, body.email ? { email: body.email } : {});
+    return [200, publicUser(user)];
+  },
+
+  'DELETE /api/users/me/': ({ body, user }) => {
+    if (!user) return unauthorized;
+    if (body.current_password !== user.password) return [400, { current_password: ['Invalid password.'] }];
+    users.splice(users.indexOf(user), 1);
+    endSessions(session => session.userId === user.id);
+    return [204];
+  },
+
+  'POST /api/users/set_password/': ({ body, user }) => {
+    if (!user) return unauthorized;
+    if (body.current_password !== user.password) return [400, { current_password: ['Invalid password.'] }];
+    const passwordErrors = validatePassword(body.new_password);
+    if (passwordErrors) return [400, { new_password: passwordErrors }];
+    user.password = body.new_password;
+    return [204];
+  },
+
+  'GET /api/sessions/': ({ user, session: currentSession }) => {
+    if (!user) return unauthorized;
+    return [200, sessions
+      .filter(session => session.userId === user.id)
+      .map(({ id, user_agent, ip_address, created_at, last_active }) => ({
+        id, user_agent, ip_address, created_at, last_active, current: id === currentSession.id,
+      }))];
+  },
+
+  'DELETE /api/sessions/:id/': ({ user, params }) => {
+    if (!user) return unauthorized;
+    const session = sessions.find(candidate => candidate.id === Number(params.id) && candidate.userId === user.id);
+    if (!session) return [404, { detail: 'Not found.' }];
+    endSessions(candidate => candidate === session);
+    return [204];
+  },
+
+  'GET /api/documents/': ({ user }) => (user ? [200, []] : unauthorized),
+};
+
+// "METHOD /path/:param/" keys -> matcher returning the params or null
+const matchRoute = (method, path) => {
+  for (const [key, handler] of Object.entries(routes)) {
+    const [routeMethod, pattern] = key.split(' ');
+    if (routeMethod !== method) continue;
+    const names = [];
+    const regex = new RegExp(`^${pattern.replace(/:(\w+)/g, (_, name) => { names.push(name); return '([^/]+)'; })}$`);
+    const match = path.match(regex);
+    if (match) return { handler, params: Object.fromEntries(names.map((name, i) => [name, match[i + 1]])) };
+  }
+  return null;
+};
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+};
+
+createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    const path = new URL(req.url, 'http://localhost').pathname;
+    const route = matchRoute(req.method, path);
+    let status = 404;
+    let data = { detail: 'Not found.' };
+
+    if (req.method === 'OPTIONS') {
+      status = 204;
+      data = undefined;
+    } else if (route) {
+      let body = {};
+      try {
+        body = raw ? JSON.parse(raw) : {};
+      } catch {
+        body = {};
+      }
+      const bearer = (req.headers.authorization || '').replace(/^Bearer /, '');
+      const session = readToken(bearer, 'access');
+      const user = session ? users.find(candidate => candidate.id === session.userId) || null : null;
+      if (session) session.last_active = new Date().toISOString();
+      [status, data] = route.handler({ body, user, session, params: route.params, req });
+    }
+
+    console.log(`${req.method} ${path} -> ${status}`);
+    res.writeHead(status, { ...CORS_HEADERS, ...(data !== undefined ? { 'Content-Type': 'application/json' } : {}) });
+    res.end(data !== undefined ? JSON.stringify(data) : undefined);
+  });
+}).listen(PORT, () => {
+  console.log(`Mock SmartDoc API on http://localhost:${PORT}/api (demo@example.com / password123)`);
+});
@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The backend expects trailing slashes; keep them on /api/proxy/* paths
+  skipTrailingSlashRedirect: true,
 };
 
 export default nextConfig;
@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { REFRESH_COOKIE } from "./lib/authCookies";
+import { IS_COOKIE_MODE, SESSION_COOKIE } from "./lib/config";
+import { isAuthRoute, isPublicRoute, loginUrl, safeNextPath } from "./lib/routes";
+
+// ============================================================================
+// ROUTE PROTECTION
+// Runs before every page request. In cookie mode the httpOnly refresh cookie
+// proves the session; in token mode the client mirrors its session into the
+// `smartdoc_session` flag cookie (the tokens stay in localStorage).
+// ============================================================================
+const hasSessionCookie = (request: NextRequest) =>
+  request.cookies.has(IS_COOKIE_MODE ? REFRESH_COOKIE : SESSION_COOKIE);
+
+export function proxy(request: NextRequest) {
+  const { pathname, search, searchParams } = request.nextUrl;
+  const signedIn = hasSessionCookie(request);
+
+  // Keep signed-in users away from login/signup
+  if (isAuthRoute(pathname)) {
+    return signedIn
+      ? NextResponse.redirect(new URL(safeNextPath(searchParams.get("next")), request.url))
+      : NextResponse.next();
+  }
+
+  if (isPublicRoute(pathname) || signedIn) {
+    return NextResponse.next();
+  }
+
+  return NextResponse.redirect(new URL(loginUrl(`${pathname}${search}`), request.url));
+}
+
+export const config = {
+  // Skip route handlers, Next.js internals and static files
+  matcher: ["/((?!api/|_next/static|_next/image|favicon.ico|.*\\..*).*)"],
+};
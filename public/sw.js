@@ -0,0 +1,57 @@
+// public/sw.js
+// Keeps the app shell loadable offline. API responses are not touched here:
+// the app caches them in IndexedDB itself (lib/offline.ts), per user.
+const CACHE_NAME = 'smartdoc-shell-v1';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+// Drop shells cached by older versions of this worker
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = async (request, response) => {
+  // Redirects (e.g. to /login) must not be served for the page that was asked for
+  if (!response.ok || response.redirected || response.type !== 'basic') return;
+  const cache = await caches.open(CACHE_NAME);
+  await cache.put(request, response);
+};
+
+// Pages: always try the network so deploys show up, fall back to the last copy
+const networkFirst = async request => {
+  try {
+    const response = await fetch(request);
+    putInCache(request, response.clone());
+    return response;
+  } catch {
+    const cached = await caches.match(request, { ignoreSearch: true });
+    return cached || Response.error();
+  }
+};
+
+// Build assets are content-hashed, so a cached copy never goes stale
+const cacheFirst = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  putInCache(request, response.clone());
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -0,0 +1,228 @@
+// types/index.ts
+// Shared shapes for documents, chat messages and their sources.
+
+export interface Source {
+  document_id?: number;
+  document_title?: string;
+  page?: number;
+  chunk?: number;
+  text?: string;
+  score?: number;
+}
+
+export interface Message {
+  role: "user" | "ai";
+  content: string;
+  timestamp: number;
+  id: string;
+  sources?: Source[];
+  isGlobal?: boolean;
+  isStreaming?: boolean;
+  // What a global question was asked across, kept so the answer can be reproduced
+  scope?: GlobalAskScope;
+}
+
+export interface AnalysisResult {
+  insights?: string;
+  error?: string;
+  summary?: string;
+  word_count?: number;
+  page_count?: number;
+}
+
+export interface DocumentProgress {
+  stage: string;
+  current?: number;
+  total?: number;
+}
+
+export interface Document {
+  id: number;
+  title: string;
+  status: "pending" | "processing" | "completed" | "failed";
+  analysis_result?: AnalysisResult;
+  created_at?: string;
+  file_size?: number;
+  updated_at?: string;
+  file?: string;
+  content_type?: string;
+  progress?: DocumentProgress;
+  // null (or missing) when the document isn't in a folder
+  folder?: number | null;
+  tags?: string[];
+  // Set while the document is in the trash
+  deleted_at?: string | null;
+  // When the trash purges it for good; the server's retention period decides
+  purge_at?: string | null;
+}
+
+export interface Folder {
+  id: number;
+  name: string;
+  // null for top-level folders
+  parent: number | null;
+}
+
+// Processing parameters accepted by `/documents/{id}/analyze/`
+export interface AnalysisOptions {
+  chunk_size?: number;
+  chunk_overlap?: number;
+  ocr?: boolean;
+}
+
+export interface StatusChange {
+  status: Document["status"] | "cancelled";
+  timestamp: string;
+  detail?: string;
+}
+
+export interface DocumentDiagnostics {
+  error?: string;
+  history: StatusChange[];
+  // Whatever the last run used (chunk size, OCR, model, ...)
+  parameters: Record<string, string | number | boolean | null>;
+}
+
+// "global" for cross-document search, "document:<id>" for a single document
+export type ThreadScope = "global" | `document:${number}`;
+
+export interface Thread {
+  id: string;
+  scope: ThreadScope;
+  title: string;
+  messages: Message[];
+  created_at: number;
+  updated_at: number;
+}
+
+// A resumable chunked upload, as `/uploads/{id}/` reports it
+export interface UploadSession {
+  id: string;
+  chunk_size?: number;
+  received_chunks: number[];
+}
+
+export type UploadStatus = "queued" | "uploading" | "paused" | "completed" | "failed" | "cancelled" | "rejected";
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  path: string;
+  status: UploadStatus;
+  percent: number;
+  error?: string;
+}
+
+// ============================================================================
+// API PAYLOADS
+// ============================================================================
+
+export interface Paginated<T> {
+  count: number;
+  next: string | null;
+  previous: string | null;
+  results: T[];
+}
+
+export interface TokenRequest {
+  email: string;
+  password: string;
+}
+
+export interface TokenPair {
+  access: string;
+  refresh: string;
+}
+
+export interface AccessToken {
+  access: string;
+  // Present when the backend rotates refresh tokens
+  refresh?: string;
+}
+
+export interface UserCreateRequest {
+  username: string;
+  email: string;
+  password: string;
+}
+
+export interface User {
+  // Not every user serializer echoes the primary key
+  id?: number;
+  username: string;
+  email: string;
+}
+
+export interface UserUpdateRequest {
+  username?: string;
+  email?: string;
+}
+
+export interface PasswordChangeRequest {
+  current_password: string;
+  new_password: string;
+}
+
+// A signed-in device (one refresh token) as listed by `/sessions/`
+export interface UserSession {
+  id: number;
+  user_agent?: string;
+  ip_address?: string;
+  created_at?: string;
+  last_active?: string;
+  // True for the session making the request
+  current?: boolean;
+}
+
+// `uid` and `token` come from the link in the reset/activation email
+export interface UidToken {
+  uid: string;
+  token: string;
+}
+
+export interface PasswordResetConfirmRequest extends UidToken {
+  new_password: string;
+}
+
+export interface AskRequest {
+  question: string;
+}
+
+// Narrows `/documents/global_ask/` to part of the library; empty means every
+// completed document. Filters combine: a document must match all of them.
+export interface GlobalAskScope {
+  document_ids?: number[];
+  // Any of these tags
+  tags?: string[];
+  // Defaults to completed documents only
+  statuses?: Document["status"][];
+  // Upload dates, YYYY-MM-DD, inclusive
+  created_after?: string;
+  created_before?: string;
+}
+
+export interface DocumentUpdateRequest {
+  title?: string;
+  folder?: number | null;
+  tags?: string[];
+}
+
+export interface FolderRequest {
+  name?: string;
+  parent?: number | null;
+}
+
+export type ThreadUpdate = Partial<Pick<Thread, "title" | "messages">>;
+
+export interface UploadSessionRequest {
+  filename: string;
+  size: number;
+  content_type: string;
+  chunk_size: number;
+  total_chunks: number;
+}
+
+export interface AskResponse {
+  answer: string;
+  sources?: Source[];
+}